@@ -1,16 +1,40 @@
 import { Vec3 } from '../math';
+import type { GasProperties } from '../physics/gas';
+import type { MassProfile } from '../physics/profiles';
 import { Star } from './star';
 
+let nextGalaxyId = 1;
+
+/**
+ * Makes sure that galaxies created from now on get a higher id than the given one, for
+ * example once galaxies have been restored with the ids they were saved with.
+ * @param id - An id that is in use.
+ */
+export const reserveGalaxyId = (id: number) => {
+  nextGalaxyId = Math.max(nextGalaxyId, Math.floor(id) + 1);
+};
+
 /*
  * A galxay exists within a universe and has a mass, size, vel, pos, mat, and stars.
  */
 export class Galaxy {
+  // A number that uniquely identifies the galaxy, for example so that a star can record
+  // which galaxy it came from.
+  id: number = nextGalaxyId++;
   vel: Vec3;
   pos: Vec3;
   rotation: Vec3;
   mass: number;
   stars: Star[] = [];
   data: Record<string, unknown> = {};
+  // The gravitational softening length of the central mass. If not set, the simulation's
+  // default softening length is used.
+  softening?: number;
+  // How the galaxy's mass is spread out around its centre. If not set, the galaxy is a
+  // point mass.
+  profile?: MassProfile;
+  // How the galaxy's gas behaves, if it has any. Gas particles are held in `stars`.
+  gas?: GasProperties;
 
   constructor(vel: Vec3, pos: Vec3, rotation: Vec3, mass: number) {
     if (!vel) {
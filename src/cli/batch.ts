@@ -0,0 +1,279 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { Galaxy } from '../astro';
+import { createSeededRandom } from '../math';
+import { createBarnesHutSimulator } from '../physics/barnes-hut';
+import { PhysicsConfig, resolvePhysicsConfig } from '../physics/config';
+import { DiagnosticsTracker } from '../physics/diagnostics';
+import { coreGravity, createForceModel } from '../physics/forces';
+import { dynamicalFriction } from '../physics/friction';
+import { addGas, createGasSimulator } from '../physics/gas';
+import { applyMergers } from '../physics/mergers';
+import { createParticleSimulator } from '../physics/particles';
+import { createMassProfile } from '../physics/profiles';
+import { createScenario } from '../physics/scenarios';
+import { createRandomGalaxy, updateGalaxies } from '../physics/simple';
+import {
+  createSnapshot,
+  decodeSnapshot,
+  encodeSnapshot,
+  restoreSnapshot,
+  RestoredSnapshot,
+  snapshotFromJSON,
+  snapshotToJSON,
+} from '../physics/snapshot';
+import { checkRunOptions, RunOptions } from './options';
+
+/**
+ * Running a simulation without a browser, saving the results to disk.
+ *
+ * Each run writes to its own directory:
+ *  - `run.json`: the options the run used, including the seed, so it can be repeated
+ *  - `diagnostics.csv`: the energies, momentum drift and core separations every few steps
+ *  - `snapshot-<step>.json` (or `.gxsn`): snapshots that can be resumed or analysed
+ */
+
+/**
+ * What happened during a run.
+ */
+export type RunSummary = {
+  // The directory the run was saved to.
+  directory: string;
+  // The seed used to create the galaxies.
+  seed: number;
+  // The step the run finished at.
+  step: number;
+  // The change in total energy over the run, relative to the initial energy.
+  energyDrift: number;
+  // The closest any two cores came, at the steps the diagnostics were recorded.
+  minSeparation: number;
+  // The number of mergers.
+  mergers: number;
+  // How long the run took, in seconds.
+  seconds: number;
+};
+
+/**
+ * Creates the galaxies for a run: a scenario, random galaxies, or those in the snapshot
+ * being resumed.
+ */
+const createGalaxies = async (
+  options: RunOptions,
+  config: PhysicsConfig,
+  seed: number,
+): Promise<RestoredSnapshot> => {
+  if (options.resume) {
+    const data = await readFile(options.resume);
+    const buffer = data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength);
+    const snapshot =
+      data.subarray(0, 4).toString() === 'GXSN'
+        ? decodeSnapshot(buffer)
+        : snapshotFromJSON(data.toString('utf8'));
+    return restoreSnapshot(snapshot);
+  }
+
+  const random = createSeededRandom(seed);
+  const gas = options.gasFraction > 0 ? { fraction: options.gasFraction } : undefined;
+  if (options.scenario) {
+    const galaxies = createScenario(options.scenario, config, random);
+    if (gas) {
+      galaxies.forEach((galaxy) => addGas(galaxy, gas));
+    }
+    return { galaxies, config, step: 0 };
+  }
+
+  // The same galaxies as the web component creates
+  const galaxies = Array.from({ length: options.galaxies }, () =>
+    createRandomGalaxy(
+      {
+        minStarCount: 700,
+        maxStarCount: 1000,
+        minGalaxyRadius: 0.5,
+        maxGalaxyRadius: 1.5,
+        profile: createMassProfile(options.massProfile),
+        morphology: options.morphology,
+        starMass: options.starMass,
+        gas,
+        random,
+      },
+      config,
+    ),
+  );
+  return { galaxies, config, step: 0 };
+};
+
+const createSimulator = (options: RunOptions) => {
+  if (options.dynamicalFriction) {
+    return createForceModel([
+      coreGravity(),
+      dynamicalFriction({ coulombLogarithm: options.coulombLogarithm }),
+    ]);
+  }
+  switch (options.simulator) {
+    case 'particles':
+      return createParticleSimulator();
+    case 'barnes-hut':
+      return createBarnesHutSimulator();
+    default:
+      return { updateGalaxies };
+  }
+};
+
+/**
+ * Measures the distance between every pair of cores, by their position in the starting list
+ * of galaxies. Pairs where one of the galaxies has merged away are left out.
+ */
+const measureSeparations = (galaxies: Galaxy[], initial: Galaxy[]) => {
+  const separations = new Map<string, number>();
+  for (let i = 0; i < initial.length; i++) {
+    for (let j = i + 1; j < initial.length; j++) {
+      if (galaxies.includes(initial[i]) && galaxies.includes(initial[j])) {
+        separations.set(`${i}_${j}`, initial[i].pos.sub(initial[j].pos).magnitude);
+      }
+    }
+  }
+  return separations;
+};
+
+/**
+ * Runs a simulation and saves the results.
+ * @param options - The options for the run.
+ * @param directory - The directory to save the results in. It is created if necessary.
+ * @returns A summary of the run.
+ * @throws Error if the options can't be used together, or a snapshot to resume can't be read
+ */
+export const runSimulation = async (
+  options: RunOptions,
+  directory: string,
+): Promise<RunSummary> => {
+  checkRunOptions(options);
+  const started = performance.now();
+  const seed = options.seed ?? Math.floor(Math.random() * 2 ** 31);
+  const physics = Object.fromEntries(
+    (
+      [
+        'timeStep',
+        'gravitationalConstant',
+        'integrator',
+        'softeningLength',
+        'softeningKernel',
+        'adaptive',
+      ] as const
+    )
+      .filter((key) => options[key] !== undefined)
+      .map((key) => [key, options[key]]),
+  );
+
+  const restored = await createGalaxies(options, resolvePhysicsConfig(physics), seed);
+  // A resumed run keeps the snapshot's physics, unless told otherwise
+  const config = resolvePhysicsConfig({ ...restored.config, ...physics });
+  const { galaxies } = restored;
+  // Galaxies with gas (which may come from a resumed snapshot) need the gas simulating too
+  let starsFormed = 0;
+  const simulator = galaxies.some((galaxy) => galaxy.gas)
+    ? createGasSimulator(
+        {
+          random: createSeededRandom(seed + 1),
+          onStep: (result) => (starsFormed += result.starsFormed.length),
+        },
+        createSimulator(options),
+      )
+    : createSimulator(options);
+  const tracker = new DiagnosticsTracker(config, 1);
+
+  await mkdir(directory, { recursive: true });
+  await writeFile(
+    path.join(directory, 'run.json'),
+    JSON.stringify({ ...options, seed, config }, null, 2) + '\n',
+  );
+
+  const saveSnapshot = async (step: number) => {
+    const snapshot = createSnapshot(galaxies, config, step);
+    const name = `snapshot-${String(step).padStart(6, '0')}`;
+    if (options.snapshotFormat === 'binary') {
+      await writeFile(
+        path.join(directory, `${name}.gxsn`),
+        new Uint8Array(encodeSnapshot(snapshot)),
+      );
+    } else {
+      await writeFile(path.join(directory, `${name}.json`), snapshotToJSON(snapshot));
+    }
+  };
+
+  const initial = [...galaxies];
+  const pairs = [...measureSeparations(galaxies, initial).keys()];
+  const rows = [
+    [
+      'step',
+      'time',
+      'kineticEnergy',
+      'potentialEnergy',
+      'totalEnergy',
+      'energyDrift',
+      'linearMomentumDrift',
+      'angularMomentumDrift',
+      'galaxies',
+      'starsFormed',
+      'minSeparation',
+      ...pairs.map((pair) => `separation_${pair}`),
+    ].join(','),
+  ];
+  let minSeparation = Infinity;
+  const recordDiagnostics = (step: number) => {
+    const sample = tracker.record(galaxies, step);
+    const separations = measureSeparations(galaxies, initial);
+    const closest = Math.min(...separations.values());
+    minSeparation = Math.min(minSeparation, closest);
+    const { kineticEnergy, potentialEnergy, totalEnergy } = sample.diagnostics;
+    rows.push(
+      [
+        step,
+        step * config.timeStep,
+        kineticEnergy,
+        potentialEnergy,
+        totalEnergy,
+        sample.energyDrift,
+        sample.linearMomentumDrift,
+        sample.angularMomentumDrift,
+        galaxies.length,
+        starsFormed,
+        Number.isFinite(closest) ? closest : '',
+        ...pairs.map((pair) => separations.get(pair) ?? ''),
+      ].join(','),
+    );
+  };
+
+  let mergers = 0;
+  let step = restored.step;
+  const lastStep = restored.step + options.steps;
+  recordDiagnostics(step);
+  while (step < lastStep) {
+    simulator.updateGalaxies(galaxies, config);
+    if (options.mergers) {
+      mergers += applyMergers(galaxies, config, { captureRadius: options.captureRadius }).length;
+    }
+    step++;
+
+    if (options.diagnosticsEvery > 0 && step % options.diagnosticsEvery === 0) {
+      recordDiagnostics(step);
+    }
+    if (options.snapshotEvery > 0 && step % options.snapshotEvery === 0 && step !== lastStep) {
+      await saveSnapshot(step);
+    }
+  }
+  if (tracker.latest?.step !== step) {
+    recordDiagnostics(step);
+  }
+  await saveSnapshot(step);
+  await writeFile(path.join(directory, 'diagnostics.csv'), rows.join('\n') + '\n');
+
+  return {
+    directory,
+    seed,
+    step,
+    energyDrift: tracker.latest?.energyDrift ?? 0,
+    minSeparation,
+    mergers,
+    seconds: (performance.now() - started) / 1000,
+  };
+};
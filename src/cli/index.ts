@@ -0,0 +1,216 @@
+import { readFile, mkdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { runSimulation, RunSummary } from './batch';
+import {
+  checkRunOptions,
+  DEFAULT_RUN_OPTIONS,
+  expandSweep,
+  findRunOption,
+  parseRunOption,
+  parseRunOptions,
+  RUN_OPTIONS,
+  RunOptions,
+  Sweep,
+  toKebabCase,
+} from './options';
+
+/**
+ * The `galaxy-js` command line tool, which runs simulations without a browser.
+ *
+ * Options can be given on the command line or in a JSON config file, and any option can be
+ * swept over a list of values to run an ensemble of simulations, for example:
+ *
+ *   galaxy-js --scenario antennae --steps 3000 --sweep integrator=leapfrog,rk4 --repeat 5
+ */
+
+const HELP = `Usage: galaxy-js [options]
+
+Runs galaxy simulations without a browser, saving snapshots and diagnostics.
+
+Options:
+${(Object.keys(RUN_OPTIONS) as (keyof RunOptions)[])
+  .map((name) => {
+    const { description, choices } = RUN_OPTIONS[name];
+    const defaultValue = DEFAULT_RUN_OPTIONS[name];
+    const details = [
+      choices && `one of ${choices.join(', ')}`,
+      defaultValue !== undefined && `default ${defaultValue}`,
+    ].filter(Boolean);
+    return `  --${toKebabCase(name).padEnd(24)}${description}${details.length ? ` (${details.join('; ')})` : ''}`;
+  })
+  .join('\n')}
+
+  --${'config <file>'.padEnd(24)}Read options from a JSON file. Command line options take precedence
+  --${'output <dir>'.padEnd(24)}The directory to save results in (default output)
+  --${'sweep <option=a,b,c>'.padEnd(24)}Run once for each value of an option. Can be repeated
+  --${'repeat <n>'.padEnd(24)}Run each combination n times, with consecutive seeds (default 1)
+  --${'help'.padEnd(24)}Show this message
+`;
+
+/**
+ * Reads a sweep given as `option=a,b,c`.
+ */
+const parseSweep = (text: string): [keyof RunOptions, string[]] => {
+  const [name, values] = text.split('=', 2);
+  if (values === undefined || values === '') {
+    throw new Error(`--sweep must look like option=a,b,c, not ${text}`);
+  }
+  return [findRunOption(name), values.split(',')];
+};
+
+/**
+ * Reads a JSON config file. It holds run options, and optionally a `sweep` object giving a
+ * list of values for each swept option, and the number of times to `repeat` each run.
+ */
+const readConfig = async (file: string) => {
+  const config = JSON.parse(await readFile(file, 'utf8'));
+  const { sweep = {}, repeat, ...options } = config;
+  const sweeps: Sweep = {};
+  for (const [name, values] of Object.entries(sweep)) {
+    if (!Array.isArray(values)) {
+      throw new Error(`The sweep of ${name} in ${file} must be a list of values`);
+    }
+    sweeps[findRunOption(name)] = values;
+  }
+  return { options: parseRunOptions(options), sweep: sweeps, repeat: repeat as number | undefined };
+};
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+// Quotes a CSV value, which may contain commas or quotes
+const quoteCSV = (text: string) => `"${text.replace(/"/g, '""')}"`;
+
+const formatSummary = (summary: RunSummary) =>
+  `${summary.directory}: step ${summary.step}, energy drift ${summary.energyDrift.toExponential(3)}, ` +
+  `closest approach ${summary.minSeparation.toFixed(4)}, ${summary.mergers} mergers, ` +
+  `${summary.seconds.toFixed(1)}s`;
+
+/**
+ * Runs the command line tool.
+ * @param args - The command line arguments, without the program name.
+ */
+const main = async (args: string[]) => {
+  const { values } = parseArgs({
+    args,
+    options: {
+      ...Object.fromEntries(
+        (Object.keys(RUN_OPTIONS) as (keyof RunOptions)[]).map((name) => [
+          toKebabCase(name),
+          { type: RUN_OPTIONS[name].kind === 'boolean' ? 'boolean' : 'string' } as const,
+        ]),
+      ),
+      config: { type: 'string' },
+      output: { type: 'string', default: 'output' },
+      sweep: { type: 'string', multiple: true, default: [] },
+      repeat: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  if (values.help) {
+    process.stdout.write(HELP);
+    return;
+  }
+
+  const file = values.config ? await readConfig(values.config as string) : null;
+  const commandLine: Partial<RunOptions> = {};
+  for (const name of Object.keys(RUN_OPTIONS) as (keyof RunOptions)[]) {
+    const value = (values as Record<string, unknown>)[toKebabCase(name)];
+    if (value !== undefined) {
+      Object.assign(commandLine, { [name]: parseRunOption(name, value) });
+    }
+  }
+  const options: RunOptions = { ...DEFAULT_RUN_OPTIONS, ...file?.options, ...commandLine };
+
+  const sweep: Sweep = { ...file?.sweep };
+  for (const text of values.sweep as string[]) {
+    const [name, sweptValues] = parseSweep(text);
+    sweep[name] = sweptValues;
+  }
+  const repeat = values.repeat !== undefined ? Number(values.repeat) : (file?.repeat ?? 1);
+  if (!Number.isInteger(repeat) || repeat < 1) {
+    throw new Error('--repeat must be a whole number of at least 1');
+  }
+
+  const runs = expandSweep(options, sweep, repeat);
+  // Check every run before starting, so that a bad combination doesn't stop a sweep part way
+  runs.forEach((run, i) => {
+    try {
+      checkRunOptions(run);
+    } catch (error) {
+      throw new Error(`Run ${i + 1} of ${runs.length}: ${errorMessage(error)}`);
+    }
+  });
+  const output = values.output as string;
+  if (runs.length === 1) {
+    console.log(formatSummary(await runSimulation(runs[0], output)));
+    return;
+  }
+
+  // Each run of a sweep gets its own directory. A run that fails is recorded in the summary
+  // and the sweep carries on, and the summary is saved after every run so that it is there
+  // even if the sweep is stopped.
+  const swept = Object.keys(sweep) as (keyof RunOptions)[];
+  const rows = [
+    [
+      'run',
+      'seed',
+      ...swept,
+      'step',
+      'energyDrift',
+      'minSeparation',
+      'mergers',
+      'seconds',
+      'error',
+    ].join(','),
+  ];
+  await mkdir(output, { recursive: true });
+  let failed = 0;
+  for (let i = 0; i < runs.length; i++) {
+    const name = `run-${String(i + 1).padStart(3, '0')}`;
+    const settings = swept.map((option) => runs[i][option]);
+    try {
+      const summary = await runSimulation(runs[i], path.join(output, name));
+      console.log(`[${i + 1}/${runs.length}] ${formatSummary(summary)}`);
+      rows.push(
+        [
+          name,
+          summary.seed,
+          ...settings,
+          summary.step,
+          summary.energyDrift,
+          summary.minSeparation,
+          summary.mergers,
+          summary.seconds,
+          '',
+        ].join(','),
+      );
+    } catch (error) {
+      failed++;
+      console.error(`[${i + 1}/${runs.length}] ${name} failed: ${errorMessage(error)}`);
+      rows.push(
+        [
+          name,
+          runs[i].seed ?? '',
+          ...settings,
+          '',
+          '',
+          '',
+          '',
+          '',
+          quoteCSV(errorMessage(error)),
+        ].join(','),
+      );
+    }
+    await writeFile(path.join(output, 'summary.csv'), rows.join('\n') + '\n');
+  }
+  if (failed > 0) {
+    throw new Error(`${failed} of ${runs.length} runs failed`);
+  }
+};
+
+main(process.argv.slice(2)).catch((error) => {
+  console.error(errorMessage(error));
+  process.exitCode = 1;
+});
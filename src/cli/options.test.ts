@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import {
+  checkRunOptions,
+  DEFAULT_RUN_OPTIONS,
+  expandSweep,
+  findRunOption,
+  parseRunOption,
+  parseRunOptions,
+} from './options';
+
+describe('findRunOption', () => {
+  it('accepts camelCase and kebab-case names', () => {
+    expect(findRunOption('timeStep')).toBe('timeStep');
+    expect(findRunOption('time-step')).toBe('timeStep');
+    expect(() => findRunOption('time_step')).toThrow('Unknown option: time_step');
+  });
+});
+
+describe('parseRunOption', () => {
+  it('reads numbers from text and JSON', () => {
+    expect(parseRunOption('steps', '300')).toBe(300);
+    expect(parseRunOption('timeStep', 0.05)).toBe(0.05);
+  });
+
+  it('rejects values that are not numbers', () => {
+    expect(() => parseRunOption('steps', '')).toThrow('--steps must be a number');
+    expect(() => parseRunOption('steps', 'many')).toThrow('--steps must be a number');
+    expect(() => parseRunOption('steps', 'Infinity')).toThrow('--steps must be a number');
+    expect(() => parseRunOption('steps', null)).toThrow('--steps must be a number');
+  });
+
+  it('reads booleans from text and JSON', () => {
+    expect(parseRunOption('adaptive', 'true')).toBe(true);
+    expect(parseRunOption('adaptive', false)).toBe(false);
+    expect(() => parseRunOption('adaptive', 'yes')).toThrow('--adaptive must be true or false');
+  });
+
+  it('only accepts the listed choices', () => {
+    expect(parseRunOption('integrator', 'rk4')).toBe('rk4');
+    expect(() => parseRunOption('integrator', 'verlet')).toThrow('--integrator must be one of');
+    expect(() => parseRunOption('scenario', 'toString')).toThrow('--scenario must be one of');
+  });
+});
+
+describe('parseRunOptions', () => {
+  it('reads a config file object', () => {
+    expect(parseRunOptions({ steps: '10', 'mass-profile': 'nfw' })).toEqual({
+      steps: 10,
+      massProfile: 'nfw',
+    });
+    expect(() => parseRunOptions({ stepz: 10 })).toThrow('Unknown option: stepz');
+  });
+});
+
+describe('expandSweep', () => {
+  it('makes a run for every combination of the swept values', () => {
+    const runs = expandSweep(DEFAULT_RUN_OPTIONS, {
+      integrator: ['leapfrog', 'rk4'],
+      timeStep: ['0.1', '0.05', '0.025'],
+    });
+    expect(runs.map((run) => [run.integrator, run.timeStep])).toEqual([
+      ['leapfrog', 0.1],
+      ['leapfrog', 0.05],
+      ['leapfrog', 0.025],
+      ['rk4', 0.1],
+      ['rk4', 0.05],
+      ['rk4', 0.025],
+    ]);
+    expect(runs.every((run) => run.steps === DEFAULT_RUN_OPTIONS.steps)).toBe(true);
+  });
+
+  it('repeats each combination with consecutive seeds', () => {
+    const runs = expandSweep({ ...DEFAULT_RUN_OPTIONS, seed: 7 }, { galaxies: [2, 3] }, 2);
+    expect(runs.map((run) => [run.galaxies, run.seed])).toEqual([
+      [2, 7],
+      [2, 8],
+      [3, 7],
+      [3, 8],
+    ]);
+  });
+
+  it('checks the swept values', () => {
+    expect(() => expandSweep(DEFAULT_RUN_OPTIONS, { integrator: ['leapfrog', 'verlet'] })).toThrow(
+      '--integrator must be one of',
+    );
+  });
+});
+
+describe('checkRunOptions', () => {
+  it('only accepts whole numbers of steps and galaxies', () => {
+    expect(() => checkRunOptions({ ...DEFAULT_RUN_OPTIONS, steps: 0 })).not.toThrow();
+    expect(() => checkRunOptions({ ...DEFAULT_RUN_OPTIONS, steps: -3 })).toThrow(
+      '--steps must be a whole number of at least 0, not -3',
+    );
+    expect(() => checkRunOptions({ ...DEFAULT_RUN_OPTIONS, steps: 2.5 })).toThrow('--steps');
+    expect(() => checkRunOptions({ ...DEFAULT_RUN_OPTIONS, galaxies: 0 })).toThrow(
+      '--galaxies must be a whole number of at least 1, not 0',
+    );
+    expect(() => checkRunOptions({ ...DEFAULT_RUN_OPTIONS, galaxies: 1.5 })).toThrow('--galaxies');
+  });
+
+  it('rejects dynamical friction with a simulator other than the standard one', () => {
+    expect(() =>
+      checkRunOptions({ ...DEFAULT_RUN_OPTIONS, dynamicalFriction: true }),
+    ).not.toThrow();
+    expect(() =>
+      checkRunOptions({ ...DEFAULT_RUN_OPTIONS, dynamicalFriction: true, simulator: 'particles' }),
+    ).toThrow('--dynamical-friction only works with the standard simulator');
+  });
+});
@@ -0,0 +1,270 @@
+import { PhysicsConfig } from '../physics/config';
+import { MorphologyName, MORPHOLOGIES } from '../physics/morphology';
+import { MASS_PROFILES, MassProfile } from '../physics/profiles';
+import { ScenarioName, SCENARIOS } from '../physics/scenarios';
+
+/**
+ * The options for a single headless run.
+ *
+ * The physics parameters are optional, so that a run resumed from a snapshot keeps the
+ * snapshot's parameters unless they are given explicitly.
+ */
+export type RunOptions = Partial<
+  Pick<
+    PhysicsConfig,
+    | 'timeStep'
+    | 'gravitationalConstant'
+    | 'integrator'
+    | 'softeningLength'
+    | 'softeningKernel'
+    | 'adaptive'
+  >
+> & {
+  // The number of steps to run.
+  steps: number;
+  // The seed for the random numbers used to create the galaxies. Picked at random if not set.
+  seed?: number;
+  // A built-in encounter to run instead of random galaxies.
+  scenario?: ScenarioName;
+  // The number of random galaxies to create.
+  galaxies: number;
+  // The type of the random galaxies.
+  morphology?: MorphologyName;
+  // The mass profile of the random galaxies.
+  massProfile: MassProfile['type'];
+  // The mass of each star. Only matters for the Barnes-Hut simulator.
+  starMass: number;
+  // The fraction of each galaxy's particles that are gas.
+  gasFraction: number;
+  // The simulator: the standard one, the fast particle store or Barnes-Hut self-gravity.
+  simulator: 'standard' | 'particles' | 'barnes-hut';
+  // Whether galaxy cores slow down as they move through each other's haloes.
+  dynamicalFriction: boolean;
+  // The Coulomb logarithm, which sets the strength of dynamical friction.
+  coulombLogarithm: number;
+  // Whether galaxy cores merge when they come close while bound.
+  mergers: boolean;
+  // How close cores must come to merge.
+  captureRadius: number;
+  // A snapshot file to resume from, instead of creating new galaxies.
+  resume?: string;
+  // The number of steps between snapshots. 0 only saves the final state.
+  snapshotEvery: number;
+  // The format of the snapshots.
+  snapshotFormat: 'json' | 'binary';
+  // The number of steps between rows of diagnostics.
+  diagnosticsEvery: number;
+};
+
+export const DEFAULT_RUN_OPTIONS: RunOptions = {
+  steps: 1500,
+  galaxies: 3,
+  massProfile: 'point',
+  starMass: 0,
+  gasFraction: 0,
+  simulator: 'standard',
+  dynamicalFriction: false,
+  coulombLogarithm: 3,
+  mergers: false,
+  captureRadius: 0.1,
+  snapshotEvery: 0,
+  snapshotFormat: 'json',
+  diagnosticsEvery: 10,
+};
+
+/**
+ * Describes a run option on the command line.
+ */
+type OptionSpec = {
+  kind: 'number' | 'string' | 'boolean';
+  description: string;
+  // The values a string option can take.
+  choices?: readonly string[];
+};
+
+/**
+ * Every run option, with how it is read from the command line. The command line uses the
+ * kebab-case version of each name, for example `--time-step` for `timeStep`.
+ */
+export const RUN_OPTIONS: Record<keyof RunOptions, OptionSpec> = {
+  steps: { kind: 'number', description: 'The number of steps to run' },
+  seed: { kind: 'number', description: 'The random seed. Picked at random if not set' },
+  scenario: {
+    kind: 'string',
+    description: 'A classic encounter to run instead of random galaxies',
+    choices: Object.keys(SCENARIOS),
+  },
+  galaxies: { kind: 'number', description: 'The number of random galaxies' },
+  morphology: {
+    kind: 'string',
+    description: 'The type of the random galaxies',
+    choices: Object.keys(MORPHOLOGIES),
+  },
+  massProfile: {
+    kind: 'string',
+    description: 'The mass profile of the random galaxies',
+    choices: MASS_PROFILES,
+  },
+  starMass: { kind: 'number', description: 'The mass of each star, for the barnes-hut simulator' },
+  gasFraction: {
+    kind: 'number',
+    description: 'The fraction of each galaxy that is gas, which forms stars',
+  },
+  simulator: {
+    kind: 'string',
+    description: 'The simulator to use',
+    choices: ['standard', 'particles', 'barnes-hut'],
+  },
+  timeStep: { kind: 'number', description: 'The time step' },
+  gravitationalConstant: { kind: 'number', description: 'The gravitational constant' },
+  integrator: {
+    kind: 'string',
+    description: 'The integrator',
+    choices: ['euler', 'symplectic-euler', 'leapfrog', 'rk4', 'yoshida'],
+  },
+  softeningLength: { kind: 'number', description: 'The softening length' },
+  softeningKernel: {
+    kind: 'string',
+    description: 'The softening kernel',
+    choices: ['plummer', 'spline', 'none'],
+  },
+  adaptive: { kind: 'boolean', description: 'Use adaptive time stepping' },
+  dynamicalFriction: {
+    kind: 'boolean',
+    description: 'Slow down cores moving through haloes, for the standard simulator',
+  },
+  coulombLogarithm: { kind: 'number', description: 'The strength of dynamical friction' },
+  mergers: { kind: 'boolean', description: 'Merge galaxy cores that come close while bound' },
+  captureRadius: { kind: 'number', description: 'How close cores must come to merge' },
+  resume: { kind: 'string', description: 'A snapshot file to resume from' },
+  snapshotEvery: {
+    kind: 'number',
+    description: 'The steps between snapshots. 0 only saves the final state',
+  },
+  snapshotFormat: {
+    kind: 'string',
+    description: 'The format of the snapshots',
+    choices: ['json', 'binary'],
+  },
+  diagnosticsEvery: { kind: 'number', description: 'The steps between rows of diagnostics' },
+};
+
+/**
+ * Converts a camelCase option name into its kebab-case command line name.
+ * @param name - The option name.
+ * @returns The command line name, without the leading dashes.
+ */
+export const toKebabCase = (name: string) =>
+  name.replace(/[A-Z]/g, (letter) => `-${letter.toLowerCase()}`);
+
+/**
+ * Finds a run option from its camelCase or kebab-case name.
+ * @param name - The name.
+ * @returns The camelCase name.
+ * @throws Error if there is no such option
+ */
+export const findRunOption = (name: string) => {
+  const option = (Object.keys(RUN_OPTIONS) as (keyof RunOptions)[]).find(
+    (key) => key === name || toKebabCase(key) === name,
+  );
+  if (!option) {
+    throw new Error(`Unknown option: ${name}`);
+  }
+  return option;
+};
+
+/**
+ * Converts and checks the value of a run option.
+ * @param name - The camelCase option name.
+ * @param value - The value, as text from the command line or as read from a JSON file.
+ * @returns The value.
+ * @throws Error if the value isn't valid for the option
+ */
+export const parseRunOption = (name: keyof RunOptions, value: unknown) => {
+  const spec = RUN_OPTIONS[name];
+  const flag = `--${toKebabCase(name)}`;
+  switch (spec.kind) {
+    case 'number': {
+      const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+      if (typeof number !== 'number' || !Number.isFinite(number)) {
+        throw new Error(`${flag} must be a number, not ${JSON.stringify(value)}`);
+      }
+      return number;
+    }
+    case 'boolean':
+      if (value === true || value === 'true') return true;
+      if (value === false || value === 'false') return false;
+      throw new Error(`${flag} must be true or false, not ${JSON.stringify(value)}`);
+    default:
+      if (typeof value !== 'string' || (spec.choices && !spec.choices.includes(value))) {
+        throw new Error(
+          `${flag} must be ${spec.choices ? `one of ${spec.choices.join(', ')}` : 'text'}, not ${JSON.stringify(value)}`,
+        );
+      }
+      return value;
+  }
+};
+
+/**
+ * Reads a set of run options from a JSON object, such as a config file.
+ * @param values - The options, by camelCase or kebab-case name.
+ * @returns The options.
+ * @throws Error if an option is unknown or has an invalid value
+ */
+export const parseRunOptions = (values: Record<string, unknown>): Partial<RunOptions> => {
+  const options: Record<string, unknown> = {};
+  for (const [name, value] of Object.entries(values)) {
+    const option = findRunOption(name);
+    options[option] = parseRunOption(option, value);
+  }
+  return options as Partial<RunOptions>;
+};
+
+/**
+ * Checks that a run's options make sense, on their own and together, so that a sweep can be
+ * checked before any of its runs start.
+ * @param options - The options for the run.
+ * @throws Error if the numbers of steps or galaxies aren't whole numbers in range, or the
+ * options can't be used together
+ */
+export const checkRunOptions = (options: RunOptions) => {
+  if (!Number.isInteger(options.steps) || options.steps < 0) {
+    throw new Error(`--steps must be a whole number of at least 0, not ${options.steps}`);
+  }
+  if (!Number.isInteger(options.galaxies) || options.galaxies < 1) {
+    throw new Error(`--galaxies must be a whole number of at least 1, not ${options.galaxies}`);
+  }
+  if (options.dynamicalFriction && options.simulator !== 'standard') {
+    throw new Error('--dynamical-friction only works with the standard simulator');
+  }
+};
+
+/**
+ * A parameter sweep: the values to try for each swept option.
+ */
+export type Sweep = Partial<Record<keyof RunOptions, unknown[]>>;
+
+/**
+ * Expands a parameter sweep into the list of runs to make: one for every combination of
+ * the swept values, each repeated with consecutive seeds.
+ * @param base - The options shared by every run.
+ * @param sweep - The values to try for each swept option.
+ * @param repeats - The number of runs to make for each combination, with different seeds.
+ * @returns The options for each run.
+ * @throws Error if a swept value isn't valid for its option
+ */
+export const expandSweep = (base: RunOptions, sweep: Sweep, repeats: number = 1): RunOptions[] => {
+  let runs: RunOptions[] = [base];
+  for (const [name, values] of Object.entries(sweep)) {
+    const option = name as keyof RunOptions;
+    runs = runs.flatMap((run) =>
+      (values ?? []).map((value) => ({ ...run, [option]: parseRunOption(option, value) })),
+    );
+  }
+  return runs.flatMap((run) =>
+    Array.from({ length: Math.max(1, repeats) }, (_, i) => ({
+      ...run,
+      seed: run.seed === undefined ? undefined : run.seed + i,
+    })),
+  );
+};
@@ -6,5 +6,9 @@ export { SimpleGalaxySimulation } from './web/simple';
 export { Star, Galaxy } from './astro';
 
 // Math Components
-export { Vec3, Matrix3x3 } from './math';
+export { Vec3, Matrix3x3, createSeededRandom } from './math';
+export type { RandomSource } from './math';
 export { randomAngle, randomAngleInRange, TWO_PI } from './math/angles';
+
+// Physics Simulation
+export * from './physics';
@@ -1,9 +1,15 @@
+import { RandomSource } from './random';
+
 export const TWO_PI = Math.PI * 2;
 
-export const randomAngle = () => {
-  return Math.random() * TWO_PI;
+export const randomAngle = (random: RandomSource = Math.random) => {
+  return random() * TWO_PI;
 };
 
-export const randomAngleInRange = (min: number, max: number) => {
-  return Math.random() * (max - min) + min;
+export const randomAngleInRange = (
+  min: number,
+  max: number,
+  random: RandomSource = Math.random,
+) => {
+  return random() * (max - min) + min;
 };
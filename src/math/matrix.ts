@@ -1,4 +1,5 @@
 import { randomAngle } from './angles';
+import { RandomSource } from './random';
 import { Vec3 } from './vector';
 
 /**
@@ -98,13 +99,14 @@ export class Matrix3x3 {
    * This is useful for generating random orientations in 3D space,
    * such as for stars or other objects in a galaxy simulation.
    *
+   * @param random - Source of random numbers (default: Math.random)
    * @returns A new matrix with random rotation angles
    */
-  static randomRotation(): Matrix3x3 {
+  static randomRotation(random: RandomSource = Math.random): Matrix3x3 {
     // Generate random angles between 0 and 2π (full circle)
-    const x = randomAngle();
-    const y = randomAngle();
-    const z = randomAngle();
+    const x = randomAngle(random);
+    const y = randomAngle(random);
+    const z = randomAngle(random);
     return Matrix3x3.fromEuler(x, y, z);
   }
 
@@ -0,0 +1,29 @@
+/**
+ * A source of uniformly distributed random numbers in the range [0, 1).
+ *
+ * `Math.random` has exactly this signature, so it can be passed anywhere a `RandomSource`
+ * is expected. For reproducible simulations, use a seeded source from {@link createSeededRandom}.
+ */
+export type RandomSource = () => number;
+
+/**
+ * Creates a seeded pseudo-random number generator.
+ *
+ * This uses the Mulberry32 algorithm, which is tiny, fast and has good enough statistical
+ * properties for placing stars. The important property for us is that it is deterministic:
+ * the same seed always produces exactly the same sequence of numbers, so a galaxy (or an
+ * entire run) created from a given seed can be reproduced bit-for-bit.
+ *
+ * @param seed - Any number. It is reduced to an unsigned 32-bit integer.
+ * @returns A function returning the next random number in the range [0, 1)
+ */
+export const createSeededRandom = (seed: number): RandomSource => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
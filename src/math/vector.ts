@@ -1,3 +1,5 @@
+import { RandomSource } from './random';
+
 /**
  * Represents a 3D vector.
  *
@@ -47,11 +49,12 @@ export class Vec3 {
    * Each component is a random value between 0 and 1, then multiplied by the factor.
    *
    * @param factor - Scaling factor to multiply the random components by (default: 1)
+   * @param random - Source of random numbers (default: Math.random)
    * @returns A new random vector
    */
-  static random(factor: number = 1) {
+  static random(factor: number = 1, random: RandomSource = Math.random) {
     // Create vector with random components between 0 and 1, then scale
-    return new Vec3(Math.random(), Math.random(), Math.random()).mul(factor);
+    return new Vec3(random(), random(), random()).mul(factor);
   }
 
   /**
@@ -62,11 +65,12 @@ export class Vec3 {
    * positions around a center point.
    *
    * @param factor - Scaling factor to multiply the centered random components by (default: 1)
+   * @param random - Source of random numbers (default: Math.random)
    * @returns A new random centered vector
    */
-  static randomCentered(factor: number = 1) {
+  static randomCentered(factor: number = 1, random: RandomSource = Math.random) {
     // Generate random vector, subtract 0.5 to center around origin, then scale
-    return Vec3.random().sub(0.5).mul(factor);
+    return Vec3.random(1, random).sub(0.5).mul(factor);
   }
 
   /**
@@ -168,6 +172,40 @@ export class Vec3 {
     return new Vec3(this.x / other.x, this.y / other.y, this.z / other.z);
   }
 
+  /**
+   * Calculates the dot product of this vector with another vector.
+   *
+   * Formula: a · b = x1*x2 + y1*y2 + z1*z2
+   *
+   * The dot product is zero for perpendicular vectors, and equals the squared magnitude
+   * when a vector is dotted with itself.
+   *
+   * @param other - The other vector
+   * @returns The dot product
+   */
+  dot(other: Vec3) {
+    return this.x * other.x + this.y * other.y + this.z * other.z;
+  }
+
+  /**
+   * Calculates the cross product of this vector with another vector.
+   *
+   * Formula: a × b = (y1*z2 - z1*y2, z1*x2 - x1*z2, x1*y2 - y1*x2)
+   *
+   * The result is perpendicular to both vectors. It is used, for example, to calculate
+   * angular momentum: L = r × p
+   *
+   * @param other - The other vector
+   * @returns A new vector representing the cross product
+   */
+  cross(other: Vec3) {
+    return new Vec3(
+      this.y * other.z - this.z * other.y,
+      this.z * other.x - this.x * other.z,
+      this.x * other.y - this.y * other.x,
+    );
+  }
+
   /**
    * Normalizes this vector (makes it a unit vector).
    *
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { Galaxy, Star } from '../astro';
+import { Vec3 } from '../math';
+import { adaptiveTimeStep, subdivideTimeStep } from './adaptive';
+
+const createPair = (distance: number) => [
+  new Galaxy(Vec3.zero(), new Vec3(-distance / 2, 0, 0), Vec3.zero(), 1000),
+  new Galaxy(Vec3.zero(), new Vec3(distance / 2, 0, 0), Vec3.zero(), 1000),
+];
+
+/**
+ * Runs `subdivideTimeStep` without moving anything, and returns the substeps it took.
+ */
+const substepsOf = (galaxies: Galaxy[], config: Parameters<typeof subdivideTimeStep>[1]) => {
+  const substeps: number[] = [];
+  const count = subdivideTimeStep(galaxies, config, (timeStep) => substeps.push(timeStep));
+  expect(count).toBe(substeps.length);
+  return substeps;
+};
+
+const sum = (values: number[]) => values.reduce((acc, value) => acc + value, 0);
+
+describe('adaptiveTimeStep', () => {
+  it('takes smaller steps as the galaxies get closer', () => {
+    const config = { maxTimeStep: 1, minTimeStep: 0 };
+    const near = adaptiveTimeStep(createPair(0.1), config);
+    const far = adaptiveTimeStep(createPair(20), config);
+    expect(near).toBeLessThan(far);
+    expect(adaptiveTimeStep(createPair(1e6))).toBe(0.01);
+    expect(adaptiveTimeStep(createPair(0), { softeningLength: 0 })).toBe(0.0001);
+  });
+
+  it('only looks at the stars when adaptiveStars is set', () => {
+    const galaxies = createPair(20);
+    galaxies[0].stars.push(new Star(new Vec3(9.9, 0, 0), Vec3.zero()));
+    const config = { maxTimeStep: 1, minTimeStep: 0 };
+    expect(adaptiveTimeStep(galaxies, { ...config, adaptiveStars: true })).toBeLessThan(
+      adaptiveTimeStep(galaxies, config),
+    );
+  });
+});
+
+describe('subdivideTimeStep', () => {
+  it('takes the whole time step at once when not adaptive', () => {
+    expect(substepsOf(createPair(0.1), { timeStep: 0.05 })).toEqual([0.05]);
+  });
+
+  it('splits the time step into substeps that add up to it', () => {
+    const far = substepsOf(createPair(1e6), { timeStep: 0.05, adaptive: true });
+    expect(far).toHaveLength(5);
+    expect(sum(far)).toBeCloseTo(0.05, 12);
+
+    const near = substepsOf(createPair(0.1), { timeStep: 0.05, adaptive: true });
+    expect(near.length).toBeGreaterThan(far.length);
+    expect(sum(near)).toBeCloseTo(0.05, 12);
+  });
+
+  it('runs backwards with negative substeps', () => {
+    const substeps = substepsOf(createPair(0.1), { timeStep: -0.05, adaptive: true });
+    expect(substeps.every((timeStep) => timeStep < 0)).toBe(true);
+    expect(sum(substeps)).toBeCloseTo(-0.05, 12);
+  });
+
+  it('refuses to take substeps of zero length', () => {
+    expect(() =>
+      substepsOf(createPair(0.1), { adaptive: true, adaptiveTolerance: 0, minTimeStep: 0 }),
+    ).toThrow('positive minTimeStep');
+  });
+});
@@ -0,0 +1,121 @@
+import { Galaxy } from '../astro';
+import { Vec3 } from '../math';
+import { PhysicsConfig, resolvePhysicsConfig } from './config';
+import { softeningOf } from './softening';
+import { allStars } from './util';
+
+/**
+ * Adaptive time stepping.
+ *
+ * A fixed time step is a compromise. While galaxies are far apart they barely change
+ * direction, and a large step would do. When two cores swing past each other (pericentre),
+ * their acceleration changes very quickly and the same step becomes far too coarse, so the
+ * energy error jumps.
+ *
+ * The natural time scale of two masses at distance r is the dynamical time, sqrt(r³ / (G M)):
+ * roughly how long it takes them to fall together. Adaptive stepping splits each frame's
+ * `timeStep` into smaller substeps, each a small fraction (the tolerance) of the shortest
+ * dynamical time in the simulation. The frame still advances by exactly `timeStep`, so the
+ * animation plays at the same speed, but more of the work is spent where it's needed.
+ *
+ * Adaptive stepping pairs best with the higher order integrators (Leapfrog, RK4 and Yoshida).
+ * The first order Euler methods make an energy error proportional to the step size, which
+ * normally cancels out over an orbit. Shrinking the step on the way in to a close pass, and
+ * growing it on the way out, stops it cancelling, so those methods can end up worse off.
+ */
+
+/**
+ * Calculates the shortest dynamical time between a point and the galaxies' central masses.
+ * Distances are softened the same way as the force, so the time stays finite at r = 0.
+ */
+const shortestDynamicalTime = (
+  pos: Vec3,
+  galaxies: Galaxy[],
+  config: PhysicsConfig,
+  self?: Galaxy,
+  selfMass = 0,
+) => {
+  let shortest = Infinity;
+  for (const galaxy of galaxies) {
+    if (galaxy === self) continue;
+    const mass = galaxy.mass + selfMass;
+    if (mass <= 0) continue;
+    const softening = Math.max(softeningOf(galaxy, config), self ? softeningOf(self, config) : 0);
+    const distSq = pos.sub(galaxy.pos).magnitude ** 2 + softening * softening;
+    const time = Math.sqrt((distSq * Math.sqrt(distSq)) / (config.gravitationalConstant * mass));
+    shortest = Math.min(shortest, time);
+  }
+  return shortest;
+};
+
+/**
+ * Chooses the size of the next substep for the current state of the galaxies.
+ * @param galaxies - The galaxies being simulated.
+ * @param config - The physics parameters to use.
+ * @returns The size of the substep, between `minTimeStep` and `maxTimeStep`. It is always
+ *   positive, whichever direction the simulation is running in.
+ */
+export const adaptiveTimeStep = (galaxies: Galaxy[], config: Partial<PhysicsConfig> = {}) => {
+  const resolved = resolvePhysicsConfig(config);
+
+  // Each pair of galaxies falls together under their combined mass
+  let shortest = Infinity;
+  for (const galaxy of galaxies) {
+    shortest = Math.min(
+      shortest,
+      shortestDynamicalTime(galaxy.pos, galaxies, resolved, galaxy, galaxy.mass),
+    );
+  }
+
+  if (resolved.adaptiveStars) {
+    allStars(galaxies, (star) => {
+      shortest = Math.min(shortest, shortestDynamicalTime(star.pos, galaxies, resolved));
+    });
+  }
+
+  // If the state has become invalid (NaN), there's nothing sensible to adapt to
+  const step = resolved.adaptiveTolerance * shortest;
+  if (Number.isNaN(step)) return resolved.maxTimeStep;
+  return Math.min(Math.max(step, resolved.minTimeStep), resolved.maxTimeStep);
+};
+
+/**
+ * Advances the simulation by one `timeStep`, split into substeps if adaptive stepping is
+ * enabled.
+ *
+ * The size of each substep is recalculated from the state left by the previous one, and the
+ * last substep is shortened so that the total is exactly `timeStep`. A negative `timeStep`
+ * runs the simulation backwards, with negative substeps.
+ * @param galaxies - The galaxies being simulated.
+ * @param config - The physics parameters to use.
+ * @param step - Advances the galaxies by the given time step.
+ * @returns The number of substeps taken.
+ * @throws Error if a substep of zero length is chosen, which would never finish
+ */
+export const subdivideTimeStep = (
+  galaxies: Galaxy[],
+  config: Partial<PhysicsConfig>,
+  step: (timeStep: number) => void,
+) => {
+  const resolved = resolvePhysicsConfig(config);
+  if (!resolved.adaptive) {
+    step(resolved.timeStep);
+    return 1;
+  }
+
+  const direction = Math.sign(resolved.timeStep);
+  const total = Math.abs(resolved.timeStep);
+  let remaining = total;
+  let substeps = 0;
+  // Stop once what's left is just rounding error, rather than taking a vanishingly small step
+  while (remaining > total * 1e-9) {
+    const size = Math.min(adaptiveTimeStep(galaxies, resolved), remaining);
+    if (!(size > 0)) {
+      throw new Error('Adaptive time stepping needs a positive minTimeStep');
+    }
+    step(direction * size);
+    remaining -= size;
+    substeps++;
+  }
+  return substeps;
+};
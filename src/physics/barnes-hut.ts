@@ -0,0 +1,275 @@
+import { Galaxy, Star } from '../astro';
+import { Vec3 } from '../math';
+import { subdivideTimeStep } from './adaptive';
+import { PhysicsConfig, resolvePhysicsConfig } from './config';
+import { getIntegrator } from './integrators';
+import { computeAccelerations } from './simple';
+import { SofteningKernel, softenedForceFactor } from './softening';
+import { allBodies, allStars, Body } from './util';
+
+/**
+ * A self-gravitating simulation using the Barnes-Hut algorithm.
+ *
+ * The standard model ignores the gravity of the stars, so a galaxy's disk can never do
+ * anything interesting on its own. Letting every star pull on every other star would fix
+ * that, but with N stars there are N² pairs, which quickly becomes far too slow.
+ *
+ * Barnes-Hut groups stars together in an octree: space is split into eight cubes, each cube
+ * that contains more than one star is split into eight smaller cubes, and so on. When a cube
+ * is far away compared to its size, all the stars inside it are treated as a single mass at
+ * their centre of mass. This brings the cost down to roughly N log N.
+ */
+
+/**
+ * Options for the Barnes-Hut simulator.
+ */
+export type BarnesHutOptions = {
+  // The opening angle θ. A cube of size s at distance d is treated as a single mass when
+  // s / d < θ. Smaller values are more accurate but slower; θ = 0 sums every pair exactly.
+  openingAngle?: number;
+  // The softening length used between stars. Defaults to the physics config's
+  // `softeningLength`.
+  starSoftening?: number;
+};
+
+// Cubes are not split beyond this depth, so that stars at identical positions can't
+// cause the tree to be subdivided forever. They simply share a leaf instead.
+const MAX_DEPTH = 32;
+
+/**
+ * A cube in the octree.
+ */
+class OctreeNode {
+  // The centre of the cube, and half the length of its side
+  cx: number;
+  cy: number;
+  cz: number;
+  halfSize: number;
+  // The total mass in the cube, and the mass-weighted sum of positions, which divided by
+  // the mass gives the centre of mass
+  mass = 0;
+  mx = 0;
+  my = 0;
+  mz = 0;
+  // A leaf holds its stars directly; an internal node holds eight children instead
+  stars: Star[] = [];
+  children: OctreeNode[] | null = null;
+
+  constructor(cx: number, cy: number, cz: number, halfSize: number) {
+    this.cx = cx;
+    this.cy = cy;
+    this.cz = cz;
+    this.halfSize = halfSize;
+  }
+
+  insert(star: Star, depth: number) {
+    // Every cube on the way down to the star's leaf includes the star's mass
+    this.mass += star.mass;
+    this.mx += star.mass * star.pos.x;
+    this.my += star.mass * star.pos.y;
+    this.mz += star.mass * star.pos.z;
+
+    if (this.children) {
+      this.childFor(star).insert(star, depth + 1);
+      return;
+    }
+
+    this.stars.push(star);
+    if (this.stars.length > 1 && depth < MAX_DEPTH) {
+      // Split the leaf into eight smaller cubes and move its stars down into them
+      const quarter = this.halfSize / 2;
+      this.children = [];
+      for (let i = 0; i < 8; i++) {
+        this.children.push(
+          new OctreeNode(
+            this.cx + (i & 1 ? quarter : -quarter),
+            this.cy + (i & 2 ? quarter : -quarter),
+            this.cz + (i & 4 ? quarter : -quarter),
+            quarter,
+          ),
+        );
+      }
+      const stars = this.stars;
+      this.stars = [];
+      for (const existing of stars) {
+        this.childFor(existing).insert(existing, depth + 1);
+      }
+    }
+  }
+
+  private childFor(star: Star) {
+    const index =
+      (star.pos.x >= this.cx ? 1 : 0) +
+      (star.pos.y >= this.cy ? 2 : 0) +
+      (star.pos.z >= this.cz ? 4 : 0);
+    return this.children![index];
+  }
+}
+
+/**
+ * An octree of massive stars that can quickly approximate their combined gravity.
+ */
+export class Octree {
+  root: OctreeNode | null = null;
+
+  /**
+   * Builds the tree. Only stars with a positive mass are included.
+   * @param stars - The stars to include.
+   */
+  constructor(stars: Star[]) {
+    const massive = stars.filter((star) => star.mass > 0);
+    if (massive.length === 0) return;
+
+    // Find a cube that contains all of the stars
+    const min = massive[0].pos.copy();
+    const max = massive[0].pos.copy();
+    for (const { pos } of massive) {
+      min.x = Math.min(min.x, pos.x);
+      min.y = Math.min(min.y, pos.y);
+      min.z = Math.min(min.z, pos.z);
+      max.x = Math.max(max.x, pos.x);
+      max.y = Math.max(max.y, pos.y);
+      max.z = Math.max(max.z, pos.z);
+    }
+    const centre = min.add(max).div(2);
+    const size = max.sub(min);
+    // Make the cube very slightly larger so that stars on its edge are safely inside
+    const halfSize = (Math.max(size.x, size.y, size.z) / 2) * 1.0001 || 1;
+
+    this.root = new OctreeNode(centre.x, centre.y, centre.z, halfSize);
+    for (const star of massive) {
+      this.root.insert(star, 0);
+    }
+  }
+
+  /**
+   * Calculates the approximate gravitational acceleration at a point caused by the stars
+   * in the tree.
+   * @param pos - The point to calculate the acceleration at.
+   * @param G - The gravitational constant.
+   * @param openingAngle - The Barnes-Hut opening angle θ.
+   * @param softeningLength - The softening length between stars.
+   * @param kernel - The softening kernel.
+   * @param self - A star to ignore, so that a star isn't affected by its own gravity.
+   * @returns The acceleration vector.
+   */
+  accelerationAt(
+    pos: Vec3,
+    G: number,
+    openingAngle: number,
+    softeningLength: number,
+    kernel: SofteningKernel,
+    self?: Body,
+  ): Vec3 {
+    let ax = 0;
+    let ay = 0;
+    let az = 0;
+
+    // Pulls the point towards a mass m at (x, y, z)
+    const attract = (x: number, y: number, z: number, m: number) => {
+      const dx = x - pos.x;
+      const dy = y - pos.y;
+      const dz = z - pos.z;
+      const factor = softenedForceFactor(dx * dx + dy * dy + dz * dz, softeningLength, kernel);
+      ax += G * m * factor * dx;
+      ay += G * m * factor * dy;
+      az += G * m * factor * dz;
+    };
+
+    const openingAngleSq = openingAngle * openingAngle;
+    const stack: OctreeNode[] = this.root ? [this.root] : [];
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+
+      if (!node.children) {
+        // A leaf: add the pull of each of its stars exactly
+        for (const star of node.stars) {
+          if (star === self) continue;
+          attract(star.pos.x, star.pos.y, star.pos.z, star.mass);
+        }
+        continue;
+      }
+
+      const comX = node.mx / node.mass;
+      const comY = node.my / node.mass;
+      const comZ = node.mz / node.mass;
+      const distSq = (comX - pos.x) ** 2 + (comY - pos.y) ** 2 + (comZ - pos.z) ** 2;
+      const size = 2 * node.halfSize;
+
+      if (size * size < openingAngleSq * distSq) {
+        // Far enough away: treat the whole cube as a single mass at its centre of mass
+        attract(comX, comY, comZ, node.mass);
+      } else {
+        // Too close: look inside the cube instead
+        for (const child of node.children) {
+          if (child.mass > 0) stack.push(child);
+        }
+      }
+    }
+
+    return new Vec3(ax, ay, az);
+  }
+}
+
+/**
+ * Calculates the acceleration of every galaxy and star, including the gravity of the stars
+ * themselves.
+ *
+ * The galaxies' central masses pull on everything exactly, as in the standard model. The pull
+ * of the massive stars on everything (including the central masses) is approximated using
+ * an octree.
+ * @param galaxies - The galaxies to calculate accelerations for.
+ * @param config - The physics parameters to use.
+ * @param options - The Barnes-Hut options.
+ * @returns The accelerations, in the same order as `allBodies(galaxies)`.
+ */
+export const computeBarnesHutAccelerations = (
+  galaxies: Galaxy[],
+  config: Partial<PhysicsConfig> = {},
+  options: BarnesHutOptions = {},
+): Vec3[] => {
+  const resolved = resolvePhysicsConfig(config);
+  const { openingAngle = 0.5, starSoftening = resolved.softeningLength } = options;
+  const G = resolved.gravitationalConstant;
+
+  const stars: Star[] = [];
+  allStars(galaxies, (star) => stars.push(star));
+  const tree = new Octree(stars);
+
+  const accelerations = computeAccelerations(galaxies, resolved);
+  const bodies = allBodies(galaxies);
+  for (let i = 0; i < bodies.length; i++) {
+    const body = bodies[i];
+    const pull = tree.accelerationAt(
+      body.pos,
+      G,
+      openingAngle,
+      starSoftening,
+      resolved.softeningKernel,
+      body,
+    );
+    accelerations[i] = accelerations[i].add(pull);
+  }
+  return accelerations;
+};
+
+/**
+ * Creates a simulator in which stars with mass attract each other, using the Barnes-Hut
+ * algorithm.
+ *
+ * Remember to create the galaxies with a non-zero `starMass`, otherwise the result is the
+ * same as the standard model (only slower).
+ * @param options - The Barnes-Hut options.
+ * @returns The simulator.
+ */
+export const createBarnesHutSimulator = (options: BarnesHutOptions = {}) => ({
+  updateGalaxies: (galaxies: Galaxy[], config: Partial<PhysicsConfig> = {}) => {
+    const resolved = resolvePhysicsConfig(config);
+    const integrator = getIntegrator(resolved.integrator);
+    subdivideTimeStep(galaxies, resolved, (timeStep) =>
+      integrator(galaxies, timeStep, (current) =>
+        computeBarnesHutAccelerations(current, resolved, options),
+      ),
+    );
+  },
+});
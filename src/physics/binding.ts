@@ -0,0 +1,135 @@
+import { Galaxy, Star } from '../astro';
+import { PhysicsConfig, resolvePhysicsConfig } from './config';
+import { starSpecificEnergy } from './diagnostics';
+import { allStars } from './util';
+
+/**
+ * Which galaxy each star belongs to.
+ *
+ * Stars are created in a galaxy's `stars` array and stay there, but during an encounter
+ * many of them are flung out into tidal tails, and some are captured by the other galaxy.
+ * A star belongs to whichever galaxy it is gravitationally bound to: the one it has a
+ * negative specific orbital energy relative to. If it is bound to more than one, we pick the
+ * galaxy it is most tightly bound to (the most negative energy).
+ *
+ * The analysis records the result in each star's `data`:
+ *  - `origin`: the id of the galaxy the star started in
+ *  - `boundTo`: the id of the galaxy the star is bound to, or null if it is bound to none
+ *  - `binding`: the star's `BindingState`
+ */
+
+/**
+ * The state of a star relative to the galaxy it started in.
+ *  - `bound`: still bound to its original galaxy
+ *  - `captured`: bound to a different galaxy
+ *  - `escaped`: not bound to any galaxy
+ */
+export type BindingState = 'bound' | 'captured' | 'escaped';
+
+/**
+ * The result of the binding analysis for a single galaxy.
+ */
+export type GalaxyBinding = {
+  // The galaxy.
+  galaxy: Galaxy;
+  // The number of stars that started in this galaxy and are still bound to it.
+  retained: number;
+  // The number of stars that started in this galaxy and are now bound to another one.
+  transferred: number;
+  // The number of stars that started in this galaxy and are no longer bound to any.
+  unbound: number;
+  // The number of stars from other galaxies that are now bound to this one.
+  captured: number;
+};
+
+/**
+ * The result of the binding analysis for the whole simulation.
+ */
+export type BindingAnalysis = {
+  // The results for each galaxy, in the same order as the galaxies.
+  galaxies: GalaxyBinding[];
+  // The total number of stars in each state.
+  bound: number;
+  captured: number;
+  escaped: number;
+};
+
+/**
+ * Finds the galaxy a star is most tightly bound to.
+ * @param star - The star.
+ * @param galaxies - The galaxies it could be bound to.
+ * @param config - The physics parameters to use.
+ * @returns The galaxy, or null if the star isn't bound to any of them.
+ */
+export const findBindingGalaxy = (
+  star: Star,
+  galaxies: Galaxy[],
+  config: Partial<PhysicsConfig> = {},
+) => {
+  const resolved = resolvePhysicsConfig(config);
+  let boundTo: Galaxy | null = null;
+  let lowestEnergy = 0;
+  for (const galaxy of galaxies) {
+    const energy = starSpecificEnergy(star, galaxy, resolved);
+    if (energy < lowestEnergy) {
+      boundTo = galaxy;
+      lowestEnergy = energy;
+    }
+  }
+  return boundTo;
+};
+
+/**
+ * Works out which galaxy every star is bound to, and records the result in `star.data`.
+ *
+ * The first time a star is analysed, the galaxy whose `stars` array holds it is recorded as
+ * its origin. Stars whose original galaxy no longer exists (for example after a merger) are
+ * still classified, but aren't counted against any galaxy's retained, transferred or unbound
+ * stars.
+ * @param galaxies - The galaxies to analyse.
+ * @param config - The physics parameters to use.
+ * @returns The number of stars in each state, overall and for each galaxy.
+ */
+export const analyseBinding = (
+  galaxies: Galaxy[],
+  config: Partial<PhysicsConfig> = {},
+): BindingAnalysis => {
+  const resolved = resolvePhysicsConfig(config);
+  const results = new Map<number, GalaxyBinding>();
+  for (const galaxy of galaxies) {
+    results.set(galaxy.id, { galaxy, retained: 0, transferred: 0, unbound: 0, captured: 0 });
+  }
+  const analysis: BindingAnalysis = {
+    galaxies: [...results.values()],
+    bound: 0,
+    captured: 0,
+    escaped: 0,
+  };
+
+  allStars(galaxies, (star, galaxy) => {
+    if (typeof star.data.origin !== 'number') {
+      star.data.origin = galaxy.id;
+    }
+    const origin = results.get(star.data.origin as number);
+    const boundTo = findBindingGalaxy(star, galaxies, resolved);
+
+    let state: BindingState;
+    if (!boundTo) {
+      state = 'escaped';
+      if (origin) origin.unbound++;
+    } else if (boundTo.id === star.data.origin) {
+      state = 'bound';
+      if (origin) origin.retained++;
+    } else {
+      state = 'captured';
+      if (origin) origin.transferred++;
+      results.get(boundTo.id)!.captured++;
+    }
+
+    star.data.boundTo = boundTo ? boundTo.id : null;
+    star.data.binding = state;
+    analysis[state]++;
+  });
+
+  return analysis;
+};
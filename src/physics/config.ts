@@ -0,0 +1,71 @@
+import { IntegratorName } from './integrators';
+import { SofteningKernel } from './softening';
+
+/**
+ * Parameters that control the physics of the simulation.
+ *
+ * The same config should be used both to create galaxies and to update them. The initial
+ * orbital speed of each star depends on the gravitational constant, so a galaxy created with
+ * one value of `G` and simulated with another will not start in a stable orbit.
+ */
+export type PhysicsConfig = {
+  // The time step for each update cycle of the simulation. Represents Δt.
+  // A smaller value increases simulation accuracy but requires more computations.
+  timeStep: number;
+  // The gravitational constant for the simulation. This value can be tuned
+  // to adjust the strength of the gravitational pull between celestial bodies.
+  gravitationalConstant: number;
+  // The numerical method used to advance the simulation by one time step.
+  integrator: IntegratorName;
+  // The default softening length of each galaxy's central mass. Within roughly this distance
+  // the pull of gravity is smoothed out to avoid huge kicks during close encounters.
+  // Individual galaxies can override it with `Galaxy.softening`.
+  softeningLength: number;
+  // How gravity is smoothed within the softening length.
+  softeningKernel: SofteningKernel;
+  // Whether to split each time step into smaller substeps during close encounters.
+  // The simulation still advances by exactly `timeStep` per update.
+  adaptive: boolean;
+  // The fraction of the shortest dynamical time to use as the substep when adaptive.
+  // A smaller value increases accuracy during close encounters but takes more substeps.
+  adaptiveTolerance: number;
+  // The smallest substep adaptive stepping may take, which limits the cost of each update.
+  minTimeStep: number;
+  // The largest substep adaptive stepping may take.
+  maxTimeStep: number;
+  // Whether stars, and not only the galaxies' central masses, limit the adaptive substep.
+  // Stars close to a core orbit very quickly, so this usually means many more substeps.
+  adaptiveStars: boolean;
+};
+
+/**
+ * The physics used by the original screensaver, plus a small amount of softening.
+ */
+export const DEFAULT_PHYSICS_CONFIG: Readonly<PhysicsConfig> = Object.freeze({
+  timeStep: 0.005,
+  gravitationalConstant: 0.001,
+  integrator: 'symplectic-euler',
+  softeningLength: 0.02,
+  softeningKernel: 'plummer',
+  adaptive: false,
+  adaptiveTolerance: 0.05,
+  minTimeStep: 0.0001,
+  maxTimeStep: 0.01,
+  adaptiveStars: false,
+});
+
+/**
+ * Fills in any missing values of a partial config with the defaults.
+ * @param config - The (possibly partial) config to resolve.
+ * @returns A complete config.
+ */
+export const resolvePhysicsConfig = (config: Partial<PhysicsConfig> = {}): PhysicsConfig => {
+  const resolved = { ...DEFAULT_PHYSICS_CONFIG };
+  for (const [key, value] of Object.entries(config)) {
+    // Skip undefined values so that `{ timeStep: undefined }` doesn't wipe out the default
+    if (value !== undefined) {
+      Object.assign(resolved, { [key]: value });
+    }
+  }
+  return resolved;
+};
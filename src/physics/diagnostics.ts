@@ -0,0 +1,268 @@
+import { Galaxy, Star } from '../astro';
+import { Vec3 } from '../math';
+import { PhysicsConfig, resolvePhysicsConfig } from './config';
+import { galaxyPairPotentialFactor, profilePotentialFactor } from './profiles';
+import { softeningOf } from './softening';
+
+/**
+ * Conserved quantities and other measurements of the state of the simulation.
+ *
+ * In a closed system, total energy, linear momentum and angular momentum never change. Our
+ * simulation can only approximate the true motion, so these quantities slowly drift, and how
+ * much they drift is a good measure of how well the simulation is behaving.
+ *
+ * Only the galaxies' central masses are included in the totals. Stars are massless in the
+ * standard model, so they carry no energy or momentum of their own.
+ */
+
+/**
+ * Measurements of a single galaxy and its stars.
+ */
+export type GalaxyDiagnostics = {
+  // The galaxy the measurements belong to.
+  galaxy: Galaxy;
+  // The average specific orbital energy of the galaxy's stars relative to its central mass.
+  meanStarEnergy: number;
+  // The fraction of the galaxy's stars that are still gravitationally bound to it.
+  boundStarFraction: number;
+};
+
+/**
+ * Measurements of the whole simulation at a moment in time.
+ */
+export type SimulationDiagnostics = {
+  // The total mass of the galaxies.
+  totalMass: number;
+  // The kinetic energy of the galaxies: Σ ½ m v²
+  kineticEnergy: number;
+  // The gravitational potential energy between the galaxies: -Σ G m₁ m₂ / r
+  potentialEnergy: number;
+  // The sum of the kinetic and potential energies.
+  totalEnergy: number;
+  // The total linear momentum: Σ m v
+  linearMomentum: Vec3;
+  // The total angular momentum about the origin: Σ r × m v
+  angularMomentum: Vec3;
+  // The mass-weighted average position of the galaxies.
+  centreOfMass: Vec3;
+  // The velocity of the centre of mass.
+  centreOfMassVelocity: Vec3;
+  // Measurements of each galaxy, in the same order as the galaxies.
+  galaxies: GalaxyDiagnostics[];
+};
+
+/**
+ * Calculates the specific orbital energy (energy per unit mass) of a star relative to a galaxy.
+ *
+ * The kinetic part uses the star's velocity relative to the galaxy, and the potential part
+ * only includes the galaxy's own central mass. A negative energy means the star is
+ * gravitationally bound to the galaxy; a positive energy means it could escape.
+ *
+ * @param star - The star.
+ * @param galaxy - The galaxy to measure the energy relative to.
+ * @param config - The physics parameters to use.
+ * @returns The specific orbital energy.
+ */
+export const starSpecificEnergy = (
+  star: Star,
+  galaxy: Galaxy,
+  config: Partial<PhysicsConfig> = {},
+) => {
+  const resolved = resolvePhysicsConfig(config);
+  const relativeVelocity = star.vel.sub(galaxy.vel);
+  const dist = star.pos.sub(galaxy.pos).magnitude;
+  const potential =
+    -resolved.gravitationalConstant *
+    galaxy.mass *
+    profilePotentialFactor(
+      galaxy.profile,
+      dist,
+      softeningOf(galaxy, resolved),
+      resolved.softeningKernel,
+    );
+  return 0.5 * relativeVelocity.dot(relativeVelocity) + potential;
+};
+
+/**
+ * Measures the conserved quantities of the simulation.
+ * @param galaxies - The galaxies to measure.
+ * @param config - The physics parameters to use. These must match the ones used by the
+ *   simulation, or the potential energy will be wrong.
+ * @returns The measurements.
+ */
+export const computeDiagnostics = (
+  galaxies: Galaxy[],
+  config: Partial<PhysicsConfig> = {},
+): SimulationDiagnostics => {
+  const resolved = resolvePhysicsConfig(config);
+  const G = resolved.gravitationalConstant;
+
+  let totalMass = 0;
+  let kineticEnergy = 0;
+  let linearMomentum = Vec3.zero();
+  let angularMomentum = Vec3.zero();
+  let weightedPosition = Vec3.zero();
+
+  for (const galaxy of galaxies) {
+    const momentum = galaxy.vel.mul(galaxy.mass);
+    totalMass += galaxy.mass;
+    kineticEnergy += 0.5 * galaxy.mass * galaxy.vel.dot(galaxy.vel);
+    linearMomentum = linearMomentum.add(momentum);
+    angularMomentum = angularMomentum.add(galaxy.pos.cross(momentum));
+    weightedPosition = weightedPosition.add(galaxy.pos.mul(galaxy.mass));
+  }
+
+  // Count each pair of galaxies once, using the same softening and profiles as the force
+  // calculation
+  let potentialEnergy = 0;
+  for (let i = 0; i < galaxies.length; i++) {
+    for (let j = i + 1; j < galaxies.length; j++) {
+      const a = galaxies[i];
+      const b = galaxies[j];
+      const dist = a.pos.sub(b.pos).magnitude;
+      potentialEnergy -= G * a.mass * b.mass * galaxyPairPotentialFactor(a, b, dist, resolved);
+    }
+  }
+
+  const galaxyDiagnostics = galaxies.map((galaxy) => {
+    let energySum = 0;
+    let boundCount = 0;
+    for (const star of galaxy.stars) {
+      const energy = starSpecificEnergy(star, galaxy, resolved);
+      energySum += energy;
+      if (energy < 0) boundCount++;
+    }
+    const count = galaxy.stars.length;
+    return {
+      galaxy,
+      meanStarEnergy: count > 0 ? energySum / count : 0,
+      boundStarFraction: count > 0 ? boundCount / count : 0,
+    };
+  });
+
+  return {
+    totalMass,
+    kineticEnergy,
+    potentialEnergy,
+    totalEnergy: kineticEnergy + potentialEnergy,
+    linearMomentum,
+    angularMomentum,
+    centreOfMass: totalMass > 0 ? weightedPosition.div(totalMass) : Vec3.zero(),
+    centreOfMassVelocity: totalMass > 0 ? linearMomentum.div(totalMass) : Vec3.zero(),
+    galaxies: galaxyDiagnostics,
+  };
+};
+
+/**
+ * A recorded measurement, along with how far it has drifted from the first one.
+ */
+export type DiagnosticsSample = {
+  // The simulation step the sample was taken at.
+  step: number;
+  // The measurements.
+  diagnostics: SimulationDiagnostics;
+  // The change in total energy since the first sample, relative to the initial energy.
+  energyDrift: number;
+  // The change in linear momentum since the first sample, relative to the initial momentum
+  // scale (the sum of the magnitudes of the galaxies' momenta).
+  linearMomentumDrift: number;
+  // The change in angular momentum since the first sample, relative to the initial angular
+  // momentum scale (the sum of the magnitudes of the galaxies' angular momenta).
+  angularMomentumDrift: number;
+};
+
+/**
+ * Divides a change by a reference scale, treating a zero scale as "no meaningful change".
+ */
+const relativeChange = (change: number, scale: number) => (scale > 0 ? change / scale : 0);
+
+/**
+ * Records diagnostics over the course of a run and tracks how far the conserved quantities
+ * drift from their initial values.
+ *
+ * A perfect integrator would report zero drift forever. Comparing the drift of different
+ * integrators on the same initial conditions shows, for example, why Symplectic Euler beats
+ * the standard Euler method.
+ */
+export class DiagnosticsTracker {
+  config: PhysicsConfig;
+  maxSamples: number;
+  samples: DiagnosticsSample[] = [];
+  initial: SimulationDiagnostics | null = null;
+  private momentumScale = 0;
+  private angularMomentumScale = 0;
+
+  /**
+   * @param config - The physics parameters used by the simulation.
+   * @param maxSamples - The maximum number of samples to keep. Older samples are discarded,
+   *   but the drift is always measured against the very first sample.
+   */
+  constructor(config: Partial<PhysicsConfig> = {}, maxSamples: number = 1000) {
+    this.config = resolvePhysicsConfig(config);
+    this.maxSamples = maxSamples;
+  }
+
+  /**
+   * Measures the galaxies and records the result.
+   * @param galaxies - The galaxies to measure.
+   * @param step - The current simulation step.
+   * @returns The recorded sample.
+   */
+  record(galaxies: Galaxy[], step: number): DiagnosticsSample {
+    const diagnostics = computeDiagnostics(galaxies, this.config);
+
+    if (!this.initial) {
+      this.initial = diagnostics;
+      // The totals can be (close to) zero, for example when the galaxies' momenta cancel
+      // out, so we measure the drift against the sum of the individual magnitudes instead.
+      this.momentumScale = galaxies.reduce(
+        (acc, galaxy) => acc + galaxy.vel.mul(galaxy.mass).magnitude,
+        0,
+      );
+      this.angularMomentumScale = galaxies.reduce(
+        (acc, galaxy) => acc + galaxy.pos.cross(galaxy.vel.mul(galaxy.mass)).magnitude,
+        0,
+      );
+    }
+
+    const sample: DiagnosticsSample = {
+      step,
+      diagnostics,
+      energyDrift: relativeChange(
+        diagnostics.totalEnergy - this.initial.totalEnergy,
+        Math.abs(this.initial.totalEnergy),
+      ),
+      linearMomentumDrift: relativeChange(
+        diagnostics.linearMomentum.sub(this.initial.linearMomentum).magnitude,
+        this.momentumScale,
+      ),
+      angularMomentumDrift: relativeChange(
+        diagnostics.angularMomentum.sub(this.initial.angularMomentum).magnitude,
+        this.angularMomentumScale,
+      ),
+    };
+
+    this.samples.push(sample);
+    if (this.samples.length > this.maxSamples) {
+      this.samples.shift();
+    }
+    return sample;
+  }
+
+  /**
+   * The most recently recorded sample, if any.
+   */
+  get latest(): DiagnosticsSample | undefined {
+    return this.samples[this.samples.length - 1];
+  }
+
+  /**
+   * Forgets all samples, so that the next one becomes the new reference point.
+   */
+  reset() {
+    this.samples = [];
+    this.initial = null;
+    this.momentumScale = 0;
+    this.angularMomentumScale = 0;
+  }
+}
@@ -0,0 +1,342 @@
+import { Galaxy, Star } from '../astro';
+import { findBindingGalaxy } from './binding';
+import { PhysicsConfig, resolvePhysicsConfig } from './config';
+import { applyMergers, MergeEvent, MergerOptions } from './mergers';
+import { Simulator, updateGalaxies } from './simple';
+import { allBodies, allStars, Body } from './util';
+
+/**
+ * Reacting to what happens in a simulation.
+ *
+ * A simulator only moves the galaxies, so anything else that should happen each step, like
+ * merging galaxies, drawing a trail or logging the energy, would otherwise mean writing a new
+ * simulator. Instead, `createSimulator` wraps a simulator and announces what happens on an
+ * event bus:
+ *  - `before-step` and `after-step`: around every step
+ *  - `simulation-reset`: when the simulation starts again with a new set of galaxies
+ *  - `galaxy-created`: the first time each galaxy is seen
+ *  - `galaxy-merge`: when two galaxies merge, if mergers are switched on
+ *  - `star-escaped`: when a star is no longer bound to any galaxy
+ *  - `nan-detected`: when a body's position or velocity stops being a number, which means
+ *    the simulation has blown up
+ *
+ * Plugins are functions that listen to these events, so behaviour can be added to any
+ * simulator, and several plugins can be combined. The `<galaxy-simulation>` web component
+ * also dispatches each event as a DOM `CustomEvent` with the same name.
+ */
+
+/**
+ * Describes a step of the simulation.
+ */
+export type StepEvent = {
+  // The galaxies being simulated.
+  galaxies: Galaxy[];
+  // The physics parameters for the step. Listeners to `before-step` can replace it to
+  // change how this step is taken.
+  config: PhysicsConfig;
+  // The step number: before the step for `before-step`, and after it for `after-step`.
+  step: number;
+};
+
+/**
+ * Describes the start of a new simulation.
+ */
+export type ResetEvent = {
+  // The new galaxies.
+  galaxies: Galaxy[];
+  // The physics parameters.
+  config: PhysicsConfig;
+  // The step the simulation starts at.
+  step: number;
+};
+
+/**
+ * Describes a galaxy joining the simulation.
+ */
+export type GalaxyCreatedEvent = {
+  // The new galaxy.
+  galaxy: Galaxy;
+  // The step it was first seen at.
+  step: number;
+};
+
+/**
+ * Describes a star escaping.
+ */
+export type StarEscapedEvent = {
+  // The star, which is no longer bound to any galaxy.
+  star: Star;
+  // The galaxy whose `stars` array holds it.
+  galaxy: Galaxy;
+  // The step the escape was noticed at.
+  step: number;
+};
+
+/**
+ * Describes bodies whose position or velocity is no longer a finite number.
+ */
+export type NaNDetectedEvent = {
+  // The galaxies and stars that are affected.
+  bodies: Body[];
+  // The step they were found at.
+  step: number;
+};
+
+/**
+ * The events a simulator announces, and what each one describes.
+ */
+export type SimulationEventMap = {
+  'before-step': StepEvent;
+  'after-step': StepEvent;
+  'simulation-reset': ResetEvent;
+  'galaxy-created': GalaxyCreatedEvent;
+  'galaxy-merge': MergeEvent;
+  'star-escaped': StarEscapedEvent;
+  'nan-detected': NaNDetectedEvent;
+};
+
+/**
+ * The names of the events a simulator announces.
+ */
+export const SIMULATION_EVENTS: (keyof SimulationEventMap)[] = [
+  'before-step',
+  'after-step',
+  'simulation-reset',
+  'galaxy-created',
+  'galaxy-merge',
+  'star-escaped',
+  'nan-detected',
+];
+
+/**
+ * A listener for an event.
+ */
+export type EventHandler<T> = (event: T) => void;
+
+/**
+ * An event bus, as created by `createEventBus`.
+ */
+export type EventBus<Events> = {
+  // Adds a listener, returning a function that removes it again.
+  on: <K extends keyof Events>(name: K, handler: EventHandler<Events[K]>) => () => void;
+  // Removes a listener.
+  off: <K extends keyof Events>(name: K, handler: EventHandler<Events[K]>) => void;
+  // Calls every listener for an event, in the order they were added.
+  emit: <K extends keyof Events>(name: K, event: Events[K]) => void;
+};
+
+/**
+ * Creates an event bus: a place to announce events and listen for them.
+ *
+ * Listeners are called synchronously, in the order they were added. An error thrown by a
+ * listener isn't caught, so it stops the event reaching later listeners and is thrown by
+ * `emit`.
+ * @returns The event bus.
+ */
+export const createEventBus = <Events>(): EventBus<Events> => {
+  const listeners = new Map<keyof Events, Set<EventHandler<never>>>();
+
+  const off = <K extends keyof Events>(name: K, handler: EventHandler<Events[K]>) => {
+    listeners.get(name)?.delete(handler);
+  };
+
+  return {
+    on: (name, handler) => {
+      if (!listeners.has(name)) {
+        listeners.set(name, new Set());
+      }
+      listeners.get(name)!.add(handler);
+      return () => off(name, handler);
+    },
+    off,
+    emit: (name, event) => {
+      // Copy the listeners, so that a listener can remove itself
+      for (const handler of [...(listeners.get(name) ?? [])]) {
+        (handler as EventHandler<typeof event>)(event);
+      }
+    },
+  };
+};
+
+/**
+ * A plugin adds behaviour to a simulator by listening to its events. It can return a
+ * function that cleans up after it, which is called when the simulator is disposed of.
+ * Listeners the plugin adds are removed automatically.
+ */
+export type SimulatorPlugin = (events: EventBus<SimulationEventMap>) => void | (() => void);
+
+/**
+ * Options for `createSimulator`.
+ */
+export type SimulatorOptions = {
+  // The simulator that advances the galaxies. Defaults to the standard one.
+  simulator?: Simulator;
+  // The event bus to announce events on. Defaults to a new one.
+  events?: EventBus<SimulationEventMap>;
+  // Plugins to install.
+  plugins?: SimulatorPlugin[];
+  // Merges galaxies after every step with these options, if set.
+  mergers?: MergerOptions;
+  // The number of steps between checks for escaped stars. 0 never checks. Defaults to 50.
+  escapeInterval?: number;
+  // The step the simulation is at. Defaults to 0.
+  step?: number;
+  // Galaxies that are already in the simulation, which aren't announced as new.
+  galaxies?: Galaxy[];
+};
+
+/**
+ * A simulator with events, as created by `createSimulator`.
+ */
+export type EventSimulator = ReturnType<typeof createSimulator>;
+
+/**
+ * Creates a simulator that announces what happens on an event bus, and runs plugins.
+ *
+ * It counts steps itself, going back a step when the time step is negative, so call `reset`
+ * when starting again with new galaxies.
+ * @param options - The simulator options.
+ * @returns The simulator.
+ */
+export const createSimulator = (options: SimulatorOptions = {}) => {
+  const {
+    simulator = { updateGalaxies },
+    events = createEventBus<SimulationEventMap>(),
+    plugins = [],
+    mergers,
+    escapeInterval = 50,
+  } = options;
+
+  let step = options.step ?? 0;
+  let known = new WeakSet<Galaxy>(options.galaxies ?? []);
+  // The stars that were unbound at the last check, kept here rather than in the stars' `data`
+  let escapedStars = new WeakSet<Star>();
+  let blownUp = false;
+
+  // Plugins get a view of the bus that remembers their listeners, so they can be removed
+  const subscriptions: (() => void)[] = [];
+  const pluginEvents: EventBus<SimulationEventMap> = {
+    ...events,
+    on: (name, handler) => {
+      const remove = events.on(name, handler);
+      subscriptions.push(remove);
+      return remove;
+    },
+  };
+  const cleanups = plugins.map((plugin) => plugin(pluginEvents));
+
+  const announceNewGalaxies = (galaxies: Galaxy[]) => {
+    for (const galaxy of galaxies) {
+      if (!known.has(galaxy)) {
+        known.add(galaxy);
+        events.emit('galaxy-created', { galaxy, step });
+      }
+    }
+  };
+
+  /**
+   * Announces stars that have become unbound since the last check. A star that is bound
+   * again later can escape again.
+   */
+  const checkEscapes = (galaxies: Galaxy[], config: PhysicsConfig) => {
+    allStars(galaxies, (star, galaxy) => {
+      const escaped = findBindingGalaxy(star, galaxies, config) === null;
+      if (!escaped) {
+        escapedStars.delete(star);
+      } else if (!escapedStars.has(star)) {
+        escapedStars.add(star);
+        events.emit('star-escaped', { star, galaxy, step });
+      }
+    });
+  };
+
+  /**
+   * Announces bodies that are no longer finite, the first time it happens.
+   */
+  const checkFinite = (galaxies: Galaxy[]) => {
+    const bodies = allBodies(galaxies).filter(
+      (body) =>
+        !Number.isFinite(
+          body.pos.x + body.pos.y + body.pos.z + body.vel.x + body.vel.y + body.vel.z,
+        ),
+    );
+    if (bodies.length > 0 && !blownUp) {
+      events.emit('nan-detected', { bodies, step });
+    }
+    blownUp = bodies.length > 0;
+  };
+
+  return {
+    events,
+
+    /**
+     * The step the simulation is at.
+     */
+    get step() {
+      return step;
+    },
+
+    /**
+     * Advances the galaxies by one step, announcing what happens. If the wrapped simulator
+     * didn't change the galaxies, the step isn't counted and there is no `after-step`.
+     * @param galaxies - The galaxies to update. Modified in place.
+     * @param config - The physics parameters to use.
+     * @returns False if the galaxies weren't changed, otherwise true.
+     */
+    updateGalaxies: (galaxies: Galaxy[], config: Partial<PhysicsConfig> = {}) => {
+      announceNewGalaxies(galaxies);
+      const before: StepEvent = { galaxies, config: resolvePhysicsConfig(config), step };
+      events.emit('before-step', before);
+      const resolved = before.config;
+
+      if (simulator.updateGalaxies(galaxies, resolved) === false) {
+        return false;
+      }
+      if (mergers) {
+        applyMergers(galaxies, resolved, {
+          ...mergers,
+          onMerge: (event) => {
+            mergers.onMerge?.(event);
+            events.emit('galaxy-merge', event);
+          },
+        });
+      }
+      step += resolved.timeStep < 0 ? -1 : 1;
+
+      announceNewGalaxies(galaxies);
+      checkFinite(galaxies);
+      if (escapeInterval > 0 && step % escapeInterval === 0) {
+        checkEscapes(galaxies, resolved);
+      }
+      events.emit('after-step', { galaxies, config: resolved, step });
+      return true;
+    },
+
+    /**
+     * Starts again with a new set of galaxies. Every galaxy is announced as new.
+     * @param galaxies - The new galaxies.
+     * @param config - The physics parameters to use.
+     * @param startStep - The step the simulation starts at.
+     */
+    reset: (galaxies: Galaxy[], config: Partial<PhysicsConfig> = {}, startStep: number = 0) => {
+      step = startStep;
+      known = new WeakSet();
+      escapedStars = new WeakSet();
+      blownUp = false;
+      events.emit('simulation-reset', {
+        galaxies,
+        config: resolvePhysicsConfig(config),
+        step,
+      });
+      announceNewGalaxies(galaxies);
+    },
+
+    /**
+     * Uninstalls the plugins, removing their listeners.
+     */
+    dispose: () => {
+      subscriptions.splice(0).forEach((remove) => remove());
+      cleanups.splice(0).forEach((cleanup) => cleanup?.());
+    },
+  };
+};
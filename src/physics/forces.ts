@@ -0,0 +1,312 @@
+import { Galaxy } from '../astro';
+import { Vec3 } from '../math';
+import { subdivideTimeStep } from './adaptive';
+import { PhysicsConfig, resolvePhysicsConfig } from './config';
+import { getIntegrator } from './integrators';
+import { galaxyPairForceFactor, MassProfile, profileForceFactor } from './profiles';
+import { softeningOf } from './softening';
+import { allStars, Body } from './util';
+
+/**
+ * Force models: the acceleration of a body as the sum of separate contributions.
+ *
+ * In the standard model the only force is the gravity of the galaxy cores. Other physics can
+ * be added as extra terms, each calculating its own share of the acceleration of a body:
+ *  - `coreGravity`: the pull of the galaxy cores (the standard model)
+ *  - `uniformField`: the same acceleration everywhere, like falling in a larger cluster
+ *  - `tidalField`: the stretching caused by a distant mass, like a galaxy's host cluster
+ *  - `backgroundPotential`: a fixed mass that doesn't move, such as a cluster's dark matter
+ *  - `drag`: a force slowing everything down, like moving through gas
+ *
+ * A term is just an object with an `acceleration` function, so new physics can be added from
+ * JavaScript without changing the simulator. The same terms are evaluated for galaxy cores
+ * and stars: for a core, the `self` argument is the galaxy, so that it can leave out its own
+ * pull on itself.
+ *
+ * Forces that depend on velocity, such as drag, break the symmetry that makes the leapfrog
+ * and Yoshida integrators conserve energy so well. They still work, but RK4 handles them
+ * more accurately.
+ */
+
+/**
+ * A contribution to the acceleration of every body.
+ */
+export type ForceTerm = {
+  // A name for the term, so that it can be found and removed.
+  name: string;
+  // Calculates the acceleration the term causes on a body. `self` is the galaxy whose core
+  // the body is, or undefined for a star.
+  acceleration: (body: Body, galaxies: Galaxy[], config: PhysicsConfig, self?: Galaxy) => Vec3;
+};
+
+/**
+ * Creates the standard force: the gravity of the galaxy cores. Each core pulls according to
+ * its mass profile and softening, and two cores share the same force factor so that the
+ * forces between them stay equal and opposite.
+ * @returns The force term.
+ */
+export const coreGravity = (): ForceTerm => ({
+  name: 'core-gravity',
+  acceleration: (body, galaxies, config, self) => {
+    const { gravitationalConstant: G, softeningKernel } = config;
+
+    // Accumulates the total acceleration from all galaxies
+    let totalAcceleration = Vec3.zero();
+
+    for (const otherGalaxy of galaxies) {
+      if (otherGalaxy === self) continue;
+
+      // Get the vector from the body to the center of the other galaxy
+      const dPos = otherGalaxy.pos.sub(body.pos);
+      const distSq = dPos.magnitude ** 2; // Use squared distance for efficiency
+
+      // The formula for the gravitational acceleration vector is a = (G * M / r³) * r_vec
+      // where M is the mass of the attracting body and r is the distance. Softening replaces
+      // 1 / r³ with a factor that stays finite close to the mass, and an extended mass
+      // profile scales it by the fraction of the mass within r.
+      // When two galaxies pull on each other they share the same factor, so that the forces
+      // between them stay equal and opposite.
+      const factor = self
+        ? galaxyPairForceFactor(otherGalaxy, self, distSq, config)
+        : profileForceFactor(
+            otherGalaxy.profile,
+            distSq,
+            softeningOf(otherGalaxy, config),
+            softeningKernel,
+          );
+
+      // Avoid division by zero if the body is exactly at a galaxy's center
+      if (factor === 0) continue;
+
+      const accelerationVec = dPos.mul(G * otherGalaxy.mass * factor);
+
+      // Add this galaxy's contribution to the total acceleration
+      totalAcceleration = totalAcceleration.add(accelerationVec);
+    }
+
+    return totalAcceleration;
+  },
+});
+
+/**
+ * Creates a uniform field: the same acceleration for every body. On its own it moves the
+ * whole system without changing its shape, so it is mostly useful combined with other terms.
+ * @param acceleration - The acceleration.
+ * @returns The force term.
+ */
+export const uniformField = (acceleration: Vec3): ForceTerm => ({
+  name: 'uniform-field',
+  acceleration: () => acceleration,
+});
+
+/**
+ * Options for a tidal field.
+ */
+export type TidalFieldOptions = {
+  // The mass causing the tide.
+  mass: number;
+  // How far away the mass is from the centre.
+  distance: number;
+  // The direction of the mass from the centre. Defaults to the x axis.
+  direction?: Vec3;
+  // The point the tide is measured from. Defaults to the origin.
+  centre?: Vec3;
+};
+
+/**
+ * Creates the tidal field of a distant mass, such as the cluster a pair of galaxies is
+ * falling through.
+ *
+ * The distant mass pulls harder on the near side of the system than on the far side. Once
+ * the pull on the centre is taken away (it moves everything together), what is left
+ * stretches the system along the direction to the mass and squeezes it across:
+ * a = (G M / D³) (3 (r·n) n - r), where r is the position relative to the centre, n the
+ * direction to the mass and D its distance.
+ * @param options - The tidal field options.
+ * @returns The force term.
+ */
+export const tidalField = (options: TidalFieldOptions): ForceTerm => {
+  const { mass, distance } = options;
+  const direction = (options.direction ?? new Vec3(1, 0, 0)).normalize();
+  const centre = options.centre ?? Vec3.zero();
+  return {
+    name: 'tidal-field',
+    acceleration: (body, _galaxies, config) => {
+      const r = body.pos.sub(centre);
+      const strength = (config.gravitationalConstant * mass) / distance ** 3;
+      return direction
+        .mul(3 * r.dot(direction))
+        .sub(r)
+        .mul(strength);
+    },
+  };
+};
+
+/**
+ * Options for a background potential.
+ */
+export type BackgroundPotentialOptions = {
+  // The total mass.
+  mass: number;
+  // How the mass is spread out. Defaults to a point mass.
+  profile?: MassProfile;
+  // Where the mass is. It never moves. Defaults to the origin.
+  centre?: Vec3;
+  // The softening length. Defaults to the physics config's `softeningLength`.
+  softening?: number;
+};
+
+/**
+ * Creates a fixed background potential: a mass that pulls on everything but never moves,
+ * such as the dark matter halo of a cluster the galaxies orbit in.
+ * @param options - The background potential options.
+ * @returns The force term.
+ */
+export const backgroundPotential = (options: BackgroundPotentialOptions): ForceTerm => {
+  const { mass, profile, softening } = options;
+  const centre = options.centre ?? Vec3.zero();
+  return {
+    name: 'background-potential',
+    acceleration: (body, _galaxies, config) => {
+      const dPos = centre.sub(body.pos);
+      const factor = profileForceFactor(
+        profile,
+        dPos.magnitude ** 2,
+        softening ?? config.softeningLength,
+        config.softeningKernel,
+      );
+      return dPos.mul(config.gravitationalConstant * mass * factor);
+    },
+  };
+};
+
+/**
+ * Options for drag.
+ */
+export type DragOptions = {
+  // How quickly bodies slow down: the acceleration is -coefficient * v.
+  coefficient: number;
+  // Whether stars feel the drag. Defaults to true.
+  stars?: boolean;
+  // Whether galaxy cores feel the drag. Defaults to true.
+  cores?: boolean;
+};
+
+/**
+ * Creates a drag force, which slows bodies down in proportion to their speed. It takes
+ * energy out of the system, so orbits shrink and galaxies that pass each other are more
+ * likely to come back and merge.
+ * @param options - The drag options.
+ * @returns The force term.
+ */
+export const drag = (options: DragOptions): ForceTerm => {
+  const { coefficient, stars = true, cores = true } = options;
+  return {
+    name: 'drag',
+    acceleration: (body, _galaxies, _config, self) =>
+      (self ? cores : stars) ? body.vel.mul(-coefficient) : Vec3.zero(),
+  };
+};
+
+/**
+ * Adds up the acceleration of a body from every term.
+ */
+const sumTerms = (
+  terms: readonly ForceTerm[],
+  body: Body,
+  galaxies: Galaxy[],
+  config: PhysicsConfig,
+  self?: Galaxy,
+) => {
+  let acceleration = terms.length > 0 ? terms[0].acceleration(body, galaxies, config, self) : null;
+  for (let i = 1; i < terms.length; i++) {
+    acceleration = acceleration!.add(terms[i].acceleration(body, galaxies, config, self));
+  }
+  return acceleration ?? Vec3.zero();
+};
+
+/**
+ * Calculates the acceleration of every galaxy and star as the sum of the given terms.
+ * @param terms - The force terms.
+ * @param galaxies - The galaxies to calculate accelerations for.
+ * @param config - The physics parameters to use.
+ * @returns The accelerations, in the same order as `allBodies(galaxies)`.
+ */
+export const computeForceAccelerations = (
+  terms: readonly ForceTerm[],
+  galaxies: Galaxy[],
+  config: Partial<PhysicsConfig> = {},
+): Vec3[] => {
+  const resolved = resolvePhysicsConfig(config);
+  const accelerations: Vec3[] = [];
+  for (const galaxy of galaxies) {
+    accelerations.push(sumTerms(terms, galaxy, galaxies, resolved, galaxy));
+  }
+  allStars(galaxies, (star) => {
+    accelerations.push(sumTerms(terms, star, galaxies, resolved));
+  });
+  return accelerations;
+};
+
+/**
+ * A force model, as created by `createForceModel`.
+ */
+export type ForceModel = ReturnType<typeof createForceModel>;
+
+/**
+ * Creates a force model: a list of force terms that together give the acceleration of every
+ * body. Terms can be added and removed at any time. The model is also a simulator.
+ * @param terms - The force terms. Defaults to the standard model, `coreGravity` alone.
+ * @returns The force model.
+ */
+export const createForceModel = (terms: ForceTerm[] = [coreGravity()]) => {
+  const model = [...terms];
+
+  const computeAccelerations = (galaxies: Galaxy[], config: Partial<PhysicsConfig> = {}) =>
+    computeForceAccelerations(model, galaxies, config);
+
+  return {
+    /**
+     * The terms in the model, in the order they are added up.
+     */
+    get terms(): readonly ForceTerm[] {
+      return model;
+    },
+
+    /**
+     * Adds a term to the model.
+     * @param term - The term.
+     */
+    add: (term: ForceTerm) => {
+      model.push(term);
+    },
+
+    /**
+     * Removes a term from the model.
+     * @param term - The term, or its name to remove every term with that name.
+     */
+    remove: (term: ForceTerm | string) => {
+      for (let i = model.length - 1; i >= 0; i--) {
+        if (model[i] === term || model[i].name === term) {
+          model.splice(i, 1);
+        }
+      }
+    },
+
+    computeAccelerations,
+
+    /**
+     * Updates the velocities and positions of the stars and galaxies by one time step, using
+     * the integrator and adaptive stepping options of the config.
+     * @param galaxies - The array of galaxies to update.
+     * @param config - The physics parameters to use.
+     */
+    updateGalaxies: (galaxies: Galaxy[], config: Partial<PhysicsConfig> = {}) => {
+      const resolved = resolvePhysicsConfig(config);
+      const integrator = getIntegrator(resolved.integrator);
+      subdivideTimeStep(galaxies, resolved, (timeStep) =>
+        integrator(galaxies, timeStep, (current) => computeAccelerations(current, resolved)),
+      );
+    },
+  };
+};
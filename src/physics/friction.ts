@@ -0,0 +1,121 @@
+import { Galaxy } from '../astro';
+import { Vec3 } from '../math';
+import { PhysicsConfig } from './config';
+import { ForceTerm } from './forces';
+import { enclosedMassFraction, MassProfile, profileDensity } from './profiles';
+import { softeningOf } from './softening';
+
+/**
+ * Dynamical friction: why galaxies that pass close to each other come back and merge.
+ *
+ * A galaxy core moving through another galaxy's halo pulls the halo's stars and dark matter
+ * towards it as it goes. By the time they arrive the core has moved on, so they pile up in a
+ * wake behind it, and the wake's gravity pulls the core back. The core slows down, loses
+ * orbital energy and sinks towards the centre of the halo.
+ *
+ * In this simulation a galaxy's mass is a single body (or a fixed profile around one), so
+ * there is no halo to form a wake. Chandrasekhar worked out the drag it would cause for a mass
+ * M moving at speed v through a sea of particles with density ρ and a Maxwellian velocity
+ * distribution with dispersion σ:
+ *
+ *   a = -4π G² M ρ ln(Λ) / v³ * (erf(X) - 2X/√π e^(-X²)) * v_vec,   X = v / (√2 σ)
+ *
+ * The Coulomb logarithm ln(Λ) sums up how much of the halo takes part, and is usually
+ * between 2 and 3 for galaxy mergers. Raise it to make cores sink faster.
+ *
+ * The friction is strongest for heavy cores moving slowly through dense haloes. Fast cores
+ * barely notice it, which is why high-speed fly-bys escape while slow encounters merge. We
+ * estimate σ from the circular speed of the halo, as if it were isothermal: σ = v_c / √2.
+ * The wake is part of the other galaxy, so that galaxy feels an equal and opposite pull, and
+ * the total momentum stays the same.
+ */
+
+/**
+ * Options for dynamical friction.
+ */
+export type DynamicalFrictionOptions = {
+  // The Coulomb logarithm ln(Λ). Defaults to 3.
+  coulombLogarithm?: number;
+  // The halo assumed for point-mass galaxies, which otherwise have no density to cause
+  // friction. Defaults to a Plummer sphere with a scale radius of 0.5.
+  haloProfile?: MassProfile;
+};
+
+/**
+ * The error function, using the approximation of Abramowitz and Stegun (7.1.26), which is
+ * accurate to about 1e-7.
+ */
+const erf = (x: number) => {
+  const t = 1 / (1 + 0.3275911 * Math.abs(x));
+  const polynomial =
+    t *
+    (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const result = 1 - polynomial * Math.exp(-x * x);
+  return x < 0 ? -result : result;
+};
+
+/**
+ * Calculates the dynamical friction on a galaxy core moving through another galaxy's halo.
+ * @param galaxy - The galaxy feeling the friction.
+ * @param host - The galaxy whose halo it is moving through.
+ * @param config - The physics parameters to use.
+ * @param options - The dynamical friction options.
+ * @returns The acceleration of the galaxy, which points against its velocity relative to
+ * the host.
+ */
+export const frictionAcceleration = (
+  galaxy: Galaxy,
+  host: Galaxy,
+  config: PhysicsConfig,
+  options: DynamicalFrictionOptions = {},
+) => {
+  const { coulombLogarithm = 3, haloProfile = { type: 'plummer', scaleRadius: 0.5 } } = options;
+  const profile = !host.profile || host.profile.type === 'point' ? haloProfile : host.profile;
+  const G = config.gravitationalConstant;
+
+  const velocity = galaxy.vel.sub(host.vel);
+  const speed = velocity.magnitude;
+  if (speed === 0 || galaxy.mass <= 0 || host.mass <= 0) return Vec3.zero();
+
+  // Soften the distance, so that the density stays finite at the centre of the halo
+  const softening = softeningOf(host, config);
+  const r = Math.sqrt(galaxy.pos.sub(host.pos).magnitude ** 2 + softening * softening);
+  const density = host.mass * profileDensity(profile, r);
+  if (density === 0) return Vec3.zero();
+
+  // The velocity dispersion of an isothermal halo with the same circular speed
+  const sigma = Math.sqrt((G * host.mass * enclosedMassFraction(profile, r)) / r / 2);
+  const X = speed / (Math.SQRT2 * sigma);
+  const fraction = erf(X) - ((2 * X) / Math.sqrt(Math.PI)) * Math.exp(-X * X);
+
+  const strength =
+    (4 * Math.PI * G * G * galaxy.mass * density * coulombLogarithm * fraction) / speed ** 3;
+  return velocity.mul(-strength);
+};
+
+/**
+ * Creates a dynamical friction term, which slows down galaxy cores moving through each other's
+ * haloes so that they spiral in and merge. Stars don't feel it. Combine it with `coreGravity`
+ * in a force model, and switch on mergers to let the cores merge once they meet.
+ * @param options - The dynamical friction options.
+ * @returns The force term.
+ */
+export const dynamicalFriction = (options: DynamicalFrictionOptions = {}): ForceTerm => ({
+  name: 'dynamical-friction',
+  acceleration: (_body, galaxies, config, self) => {
+    let acceleration = Vec3.zero();
+    if (!self || self.mass <= 0) return acceleration;
+    for (const other of galaxies) {
+      if (other === self) continue;
+      // The friction of the other galaxy's halo on this core, and the pull of the wake this
+      // galaxy's halo forms behind the other core, which is equal and opposite to the
+      // friction the other core feels
+      const friction = frictionAcceleration(self, other, config, options);
+      const reaction = frictionAcceleration(other, self, config, options).mul(
+        -other.mass / self.mass,
+      );
+      acceleration = acceleration.add(friction).add(reaction);
+    }
+    return acceleration;
+  },
+});
@@ -0,0 +1,257 @@
+import { Galaxy, Star } from '../astro';
+import { RandomSource } from '../math';
+import { PhysicsConfig } from './config';
+import { createForceModel } from './forces';
+import type { Simulator } from './simple';
+
+/**
+ * Gas and star formation.
+ *
+ * Stars are so small compared with the distances between them that two galaxies can pass
+ * straight through each other without a single collision. Gas is different: clouds of gas
+ * crash into each other, heat up and radiate the energy away. In a collision between
+ * galaxies the gas is squeezed into dense bridges and knots, and collapses to form bursts of
+ * bright young stars. That is why colliding galaxies such as the Antennae glow blue.
+ *
+ * Here a gas cloud is a particle like a star, held in the galaxy's `stars` array and marked
+ * with `data.phase = 'gas'`, so it moves under gravity exactly like a star. After each step,
+ * gas particles closer together than a collision radius that are moving towards each other
+ * collide inelastically ("sticky particles"): they lose most of the speed at which they are
+ * approaching, as if the energy was radiated away. Gas with enough neighbours to count as
+ * compressed turns into a young star (`data.phase = 'young'`), which becomes an ordinary star
+ * again once it has aged.
+ *
+ * The properties of the gas belong to each galaxy (`Galaxy.gas`), so galaxies can have
+ * different amounts and kinds of gas. When two gas particles from different galaxies meet,
+ * the larger collision radius and the average restitution are used.
+ */
+
+/**
+ * How the gas of a galaxy behaves.
+ */
+export type GasProperties = {
+  // Gas particles closer than this collide.
+  collisionRadius: number;
+  // The fraction of the speed at which two gas particles approach that is left after they
+  // collide. 0 makes them stick together, 1 makes them bounce without losing energy.
+  restitution: number;
+  // The number of gas particles within the collision radius for gas to be compressed enough
+  // to form stars.
+  densityThreshold: number;
+  // The chance that compressed gas turns into a star in each step.
+  starFormationRate: number;
+  // The number of steps a new star is shown as young.
+  youngStarLifetime: number;
+};
+
+/**
+ * Options for giving a galaxy gas: the fraction of its particles that are gas, and how the
+ * gas behaves.
+ */
+export type GasOptions = Partial<GasProperties> & {
+  // The fraction of the galaxy's particles that are gas, between 0 and 1. Defaults to 0.2.
+  fraction?: number;
+};
+
+/**
+ * Gas that sticks together when it collides, and forms stars once a few particles crowd
+ * together.
+ */
+export const DEFAULT_GAS_PROPERTIES: Readonly<GasProperties> = Object.freeze({
+  collisionRadius: 0.05,
+  restitution: 0.2,
+  densityThreshold: 4,
+  starFormationRate: 0.02,
+  youngStarLifetime: 300,
+});
+
+/**
+ * Checks whether a particle is gas.
+ * @param star - The particle.
+ * @returns True if it is gas.
+ */
+export const isGas = (star: Star) => star.data.phase === 'gas';
+
+/**
+ * Checks whether a particle is a recently formed star.
+ * @param star - The particle.
+ * @returns True if it is a young star.
+ */
+export const isYoungStar = (star: Star) => star.data.phase === 'young';
+
+/**
+ * Gives a galaxy gas, by turning a fraction of its stars into gas particles. The gas
+ * particles are spread evenly through the `stars` array, which holds the stars in a random
+ * order, so the gas is spread through the galaxy like the stars.
+ * @param galaxy - The galaxy.
+ * @param options - The gas options.
+ * @throws Error if the fraction isn't between 0 and 1
+ */
+export const addGas = (galaxy: Galaxy, options: GasOptions = {}) => {
+  const { fraction = 0.2, ...properties } = options;
+  if (!(fraction >= 0 && fraction <= 1)) {
+    throw new Error(`The gas fraction must be between 0 and 1, not ${fraction}`);
+  }
+  galaxy.gas = { ...DEFAULT_GAS_PROPERTIES, ...galaxy.gas, ...properties };
+  galaxy.stars.forEach((star, i) => {
+    if (Math.floor((i + 1) * fraction) > Math.floor(i * fraction)) {
+      star.data.phase = 'gas';
+    }
+  });
+};
+
+/**
+ * What happened to the gas in a step.
+ */
+export type GasStepResult = {
+  // The number of collisions between gas particles.
+  collisions: number;
+  // The stars that formed.
+  starsFormed: Star[];
+};
+
+/**
+ * A gas particle and the properties of the galaxy holding it.
+ */
+type GasParticle = {
+  star: Star;
+  gas: GasProperties;
+  neighbours: number;
+};
+
+/**
+ * Counts two gas particles as neighbours if they are within the collision radius, and if they
+ * are moving towards each other, takes away most of the speed at which they are approaching.
+ * The speed across the line between them is unchanged, and momentum is conserved.
+ * @returns True if they collided.
+ */
+const collide = (a: GasParticle, b: GasParticle) => {
+  const radius = Math.max(a.gas.collisionRadius, b.gas.collisionRadius);
+  const offset = b.star.pos.sub(a.star.pos);
+  const dist = offset.magnitude;
+  if (dist > radius) return false;
+  a.neighbours++;
+  b.neighbours++;
+  if (dist === 0) return false;
+
+  const normal = offset.div(dist);
+  const approachSpeed = b.star.vel.sub(a.star.vel).dot(normal);
+  if (approachSpeed >= 0) return false;
+
+  // Massless particles share the change equally, otherwise the lighter one changes more
+  const totalMass = a.star.mass + b.star.mass;
+  const aShare = totalMass > 0 ? b.star.mass / totalMass : 0.5;
+  const restitution = (a.gas.restitution + b.gas.restitution) / 2;
+  const change = normal.mul((1 + restitution) * approachSpeed);
+  a.star.vel = a.star.vel.add(change.mul(aShare));
+  b.star.vel = b.star.vel.sub(change.mul(1 - aShare));
+  return true;
+};
+
+/**
+ * Makes colliding gas particles lose energy, forms stars from compressed gas, and ages the
+ * young stars. Call it after every step.
+ *
+ * To find the particles close enough to collide without comparing every pair, they are
+ * sorted into a grid of cubes as wide as the largest collision radius. Particles can then
+ * only collide with those in the same or a neighbouring cube.
+ * @param galaxies - The galaxies. Modified in place.
+ * @param random - The source of random numbers for star formation.
+ * @returns The number of collisions, and the stars that formed.
+ */
+export const applyGasDynamics = (
+  galaxies: Galaxy[],
+  random: RandomSource = Math.random,
+): GasStepResult => {
+  const particles: GasParticle[] = [];
+  let cellSize = 0;
+  for (const galaxy of galaxies) {
+    const gas = galaxy.gas ?? DEFAULT_GAS_PROPERTIES;
+    for (const star of galaxy.stars) {
+      if (isYoungStar(star)) {
+        // Young stars age, and eventually look like any other star
+        const age = ((star.data.age as number) ?? 0) + 1;
+        if (age >= gas.youngStarLifetime) {
+          delete star.data.phase;
+          delete star.data.age;
+        } else {
+          star.data.age = age;
+        }
+      } else if (isGas(star)) {
+        particles.push({ star, gas, neighbours: 0 });
+        cellSize = Math.max(cellSize, gas.collisionRadius);
+      }
+    }
+  }
+  const result: GasStepResult = { collisions: 0, starsFormed: [] };
+  if (particles.length === 0 || cellSize <= 0) return result;
+
+  const cellOf = (value: number) => Math.floor(value / cellSize);
+  const grid = new Map<string, number[]>();
+  particles.forEach(({ star }, i) => {
+    const key = `${cellOf(star.pos.x)},${cellOf(star.pos.y)},${cellOf(star.pos.z)}`;
+    const cell = grid.get(key);
+    if (cell) {
+      cell.push(i);
+    } else {
+      grid.set(key, [i]);
+    }
+  });
+
+  particles.forEach((a, i) => {
+    const x = cellOf(a.star.pos.x);
+    const y = cellOf(a.star.pos.y);
+    const z = cellOf(a.star.pos.z);
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dz = -1; dz <= 1; dz++) {
+          for (const j of grid.get(`${x + dx},${y + dy},${z + dz}`) ?? []) {
+            // Each pair is only looked at once
+            if (j > i && collide(a, particles[j])) {
+              result.collisions++;
+            }
+          }
+        }
+      }
+    }
+  });
+
+  for (const { star, gas, neighbours } of particles) {
+    if (neighbours >= gas.densityThreshold && random() < gas.starFormationRate) {
+      star.data.phase = 'young';
+      star.data.age = 0;
+      result.starsFormed.push(star);
+    }
+  }
+  return result;
+};
+
+/**
+ * Options for the gas simulator.
+ */
+export type GasSimulatorOptions = {
+  // The source of random numbers for star formation. Defaults to `Math.random`.
+  random?: RandomSource;
+  // Called after each step with what happened to the gas.
+  onStep?: (result: GasStepResult) => void;
+};
+
+/**
+ * Creates a simulator that applies gas dynamics and star formation after every step.
+ * @param options - The gas simulator options.
+ * @param simulator - The simulator that advances the galaxies. Defaults to the standard one.
+ * @returns The simulator.
+ */
+export const createGasSimulator = (
+  options: GasSimulatorOptions = {},
+  simulator: Simulator = createForceModel(),
+): Simulator => ({
+  updateGalaxies: (galaxies: Galaxy[], config: Partial<PhysicsConfig> = {}) => {
+    if (simulator.updateGalaxies(galaxies, config) === false) {
+      return false;
+    }
+    const result = applyGasDynamics(galaxies, options.random);
+    options.onStep?.(result);
+    return true;
+  },
+});
@@ -0,0 +1,94 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Galaxy, Star } from '../astro';
+import { Vec3 } from '../math';
+import { createHealthGuard, HealthGuardOptions } from './guard';
+
+const createGalaxies = () => {
+  const first = new Galaxy(Vec3.zero(), new Vec3(-1, 0, 0), Vec3.zero(), 1000);
+  first.stars.push(
+    new Star(new Vec3(-1.5, 0, 0), Vec3.zero()),
+    new Star(new Vec3(-20, 0, 0), Vec3.zero()),
+  );
+  const second = new Galaxy(Vec3.zero(), new Vec3(1, 0, 0), Vec3.zero(), 1000);
+  second.stars.push(new Star(new Vec3(1.5, 0, 0), Vec3.zero()));
+  return [first, second];
+};
+
+describe('createHealthGuard', () => {
+  it('checks its options', () => {
+    expect(() => createHealthGuard({ escapeRadius: 0 })).toThrow('escape radius');
+    expect(() => createHealthGuard({ checkpointInterval: -1 })).toThrow('checkpoint interval');
+    expect(() =>
+      createHealthGuard({ escapeAction: 'frozen' as HealthGuardOptions['escapeAction'] }),
+    ).toThrow('Unknown escape action "frozen"');
+  });
+
+  it('rolls a galaxy that is no longer finite back to the last checkpoint', () => {
+    const onError = vi.fn();
+    const guard = createHealthGuard({ checkpointInterval: 10, onError });
+    const galaxies = createGalaxies();
+    const original = galaxies;
+
+    expect(guard.check(galaxies, {}, 0).status).toBe('healthy');
+    galaxies[0].pos = new Vec3(-0.5, 0, 0);
+    expect(guard.check(galaxies, {}, 5).status).toBe('healthy');
+    galaxies[0].pos = new Vec3(NaN, 0, 0);
+
+    const result = guard.check(galaxies, {}, 6);
+    expect(result.status).toBe('rolled-back');
+    expect(result.step).toBe(0);
+    expect(result.issues).toHaveLength(1);
+    expect(result.issues[0]).toMatchObject({ kind: 'non-finite', galaxy: expect.any(Galaxy) });
+    expect(onError).toHaveBeenCalledTimes(1);
+    // The array is the same, but holds the galaxies as they were at step 0
+    expect(galaxies).toBe(original);
+    expect(galaxies[0].pos.x).toBe(-1);
+  });
+
+  it('saves a checkpoint every checkpointInterval steps', () => {
+    const guard = createHealthGuard({ checkpointInterval: 10 });
+    const galaxies = createGalaxies();
+    for (const step of [0, 5, 10, 15]) {
+      guard.check(galaxies, {}, step);
+    }
+    expect(guard.lastGood?.step).toBe(10);
+  });
+
+  it("reports the galaxies as corrupt if it can't roll back", () => {
+    const guard = createHealthGuard({ rollback: false });
+    const galaxies = createGalaxies();
+    guard.check(galaxies, {}, 0);
+    galaxies[1].stars[0].vel = new Vec3(0, Infinity, 0);
+    const result = guard.check(galaxies, {}, 1);
+    expect(result.status).toBe('corrupt');
+    expect(result.issues[0].star).toBe(galaxies[1].stars[0]);
+  });
+
+  it('culls stars beyond the escape radius', () => {
+    const onError = vi.fn();
+    const guard = createHealthGuard({ escapeRadius: 10, onError });
+    const galaxies = createGalaxies();
+    const far = galaxies[0].stars[1];
+
+    const result = guard.check(galaxies, {}, 1);
+    expect(result.status).toBe('healthy');
+    expect(result.removed).toEqual([far]);
+    expect(galaxies[0].stars).not.toContain(far);
+    expect(galaxies[1].stars).toHaveLength(1);
+    expect(guard.frozen).toHaveLength(0);
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ kind: 'escaped', star: far }));
+  });
+
+  it('freezes stars beyond the escape radius, and forgets them on reset', () => {
+    const guard = createHealthGuard({ escapeRadius: 10, escapeAction: 'freeze' });
+    const galaxies = createGalaxies();
+    const far = galaxies[0].stars[1];
+
+    guard.check(galaxies, {}, 1);
+    expect(galaxies[0].stars).not.toContain(far);
+    expect(guard.frozen).toEqual([{ star: far, galaxy: galaxies[0] }]);
+    guard.reset();
+    expect(guard.frozen).toHaveLength(0);
+    expect(guard.lastGood).toBeNull();
+  });
+});
@@ -0,0 +1,325 @@
+import { Galaxy, Star } from '../astro';
+import { Vec3 } from '../math';
+import { PhysicsConfig } from './config';
+import { createSnapshot, restoreSnapshot, Snapshot } from './snapshot';
+
+/**
+ * Keeping a simulation healthy.
+ *
+ * Two things can quietly go wrong in a long simulation. A close pass with too large a time
+ * step can give a body an enormous acceleration, and once a position or velocity becomes NaN
+ * or Infinity, it spreads to everything it pulls on. Nothing crashes: the galaxies simply
+ * vanish from the screen. And stars flung out of a galaxy keep travelling outwards forever,
+ * still costing as much to simulate as the stars that matter.
+ *
+ * A health guard checks the galaxies after each step:
+ *  - Bodies whose position, velocity or mass is no longer a finite number are reported. The
+ *    guard then rolls the galaxies back to the last healthy state it saved, if it has one.
+ *  - Stars further than the escape radius from the centre of mass of the galaxy cores are
+ *    culled (removed from the simulation) or frozen (taken out of the simulation, but kept
+ *    where they are so that they can still be drawn).
+ *
+ * Every few steps, a healthy state is saved as a snapshot to roll back to. A simulation that
+ * blew up once will usually blow up again in the same way, so after a rollback try a smaller
+ * time step, adaptive stepping or more softening before carrying on.
+ */
+
+/**
+ * Something wrong with a galaxy or star.
+ */
+export type HealthIssue = {
+  // What is wrong: 'non-finite' if a position, velocity or mass is NaN or Infinity, or
+  // 'escaped' if a star is beyond the escape radius.
+  kind: 'non-finite' | 'escaped';
+  // The galaxy, or the galaxy whose `stars` array holds the star.
+  galaxy: Galaxy;
+  // The star, or undefined if the problem is the galaxy's core.
+  star?: Star;
+  // The step the problem was found at.
+  step: number;
+  // A description of the problem.
+  message: string;
+};
+
+/**
+ * A star that has been taken out of the simulation, but is still shown.
+ */
+export type FrozenStar = {
+  star: Star;
+  // The galaxy it belonged to.
+  galaxy: Galaxy;
+};
+
+/**
+ * Options for a health guard.
+ */
+export type HealthGuardOptions = {
+  // How far from the centre of mass of the galaxy cores a star can go before it is culled or
+  // frozen. Defaults to Infinity, so stars are never culled.
+  escapeRadius?: number;
+  // What to do with stars beyond the escape radius: 'cull' removes them, 'freeze' keeps them
+  // where they are without simulating them. Defaults to 'cull'.
+  escapeAction?: 'cull' | 'freeze';
+  // The number of steps between saved healthy states. 0 only saves the first. Defaults to 50.
+  checkpointInterval?: number;
+  // Whether to roll back to the last healthy state when something isn't finite. Defaults to
+  // true.
+  rollback?: boolean;
+  // Called with each problem found.
+  onError?: (issue: HealthIssue) => void;
+};
+
+/**
+ * The result of checking the galaxies after a step.
+ */
+export type HealthCheckResult = {
+  // 'healthy' if everything is finite, 'rolled-back' if it wasn't and the galaxies have been
+  // restored to the last healthy state, or 'corrupt' if it wasn't and couldn't be restored.
+  status: 'healthy' | 'rolled-back' | 'corrupt';
+  // The problems found.
+  issues: HealthIssue[];
+  // The stars culled or frozen in this check.
+  removed: Star[];
+  // The step the simulation is at, which after a rollback is the step of the restored state.
+  step: number;
+};
+
+/**
+ * Checks whether a vector's components are all finite numbers.
+ */
+const isFiniteVec = (vec: Vec3) =>
+  Number.isFinite(vec.x) && Number.isFinite(vec.y) && Number.isFinite(vec.z);
+
+/**
+ * Finds the galaxies and stars whose position, velocity or mass is NaN or Infinity. Cores
+ * are listed first, since a broken core breaks all of the stars around it.
+ * @param galaxies - The galaxies to check.
+ * @param step - The step the simulation is at, to record in each issue.
+ * @returns The problems found.
+ */
+export const findNonFinite = (galaxies: Galaxy[], step: number = 0): HealthIssue[] => {
+  const issues: HealthIssue[] = [];
+  for (const galaxy of galaxies) {
+    if (!isFiniteVec(galaxy.pos) || !isFiniteVec(galaxy.vel) || !Number.isFinite(galaxy.mass)) {
+      issues.push({
+        kind: 'non-finite',
+        galaxy,
+        step,
+        message: `Galaxy ${galaxy.id} has a position, velocity or mass that isn't finite at step ${step}`,
+      });
+    }
+  }
+  for (const galaxy of galaxies) {
+    galaxy.stars.forEach((star, i) => {
+      if (!isFiniteVec(star.pos) || !isFiniteVec(star.vel) || !Number.isFinite(star.mass)) {
+        issues.push({
+          kind: 'non-finite',
+          galaxy,
+          star,
+          step,
+          message: `Star ${i} of galaxy ${galaxy.id} has a position, velocity or mass that isn't finite at step ${step}`,
+        });
+      }
+    });
+  }
+  return issues;
+};
+
+/**
+ * Calculates the centre of mass of the galaxy cores, or their average position if they have
+ * no mass.
+ * @param galaxies - The galaxies.
+ * @returns The centre of mass.
+ */
+export const coreCentreOfMass = (galaxies: Galaxy[]) => {
+  const totalMass = galaxies.reduce((acc, galaxy) => acc + galaxy.mass, 0);
+  if (totalMass > 0) {
+    return galaxies
+      .reduce((acc, galaxy) => acc.add(galaxy.pos.mul(galaxy.mass)), Vec3.zero())
+      .div(totalMass);
+  }
+  return galaxies.length > 0
+    ? galaxies.reduce((acc, galaxy) => acc.add(galaxy.pos), Vec3.zero()).div(galaxies.length)
+    : Vec3.zero();
+};
+
+/**
+ * Removes the stars further than a distance from the centre of mass of the galaxy cores.
+ * @param galaxies - The galaxies. Their `stars` arrays are replaced if any stars are removed.
+ * @param escapeRadius - The distance.
+ * @returns The stars removed, with the galaxies they belonged to.
+ */
+export const removeEscapedStars = (galaxies: Galaxy[], escapeRadius: number): FrozenStar[] => {
+  const removed: FrozenStar[] = [];
+  const centre = coreCentreOfMass(galaxies);
+  const radiusSq = escapeRadius * escapeRadius;
+  for (const galaxy of galaxies) {
+    const escaped = galaxy.stars.filter((star) => star.pos.sub(centre).magnitude ** 2 > radiusSq);
+    // Only replace the array if something escaped, so that it keeps its identity otherwise
+    if (escaped.length > 0) {
+      const gone = new Set(escaped);
+      galaxy.stars = galaxy.stars.filter((star) => !gone.has(star));
+      escaped.forEach((star) => removed.push({ star, galaxy }));
+    }
+  }
+  return removed;
+};
+
+/**
+ * What can be done with stars beyond the escape radius.
+ */
+export const ESCAPE_ACTIONS: readonly NonNullable<HealthGuardOptions['escapeAction']>[] = [
+  'cull',
+  'freeze',
+];
+
+/**
+ * Checks that an escape action exists.
+ * @param name - The name of the escape action.
+ * @returns The escape action.
+ * @throws Error if there is no escape action with that name
+ */
+export const checkEscapeAction = (name: string) => {
+  if (!(ESCAPE_ACTIONS as readonly string[]).includes(name)) {
+    throw new Error(
+      `Unknown escape action "${name}". Expected one of: ${ESCAPE_ACTIONS.join(', ')}`,
+    );
+  }
+  return name as (typeof ESCAPE_ACTIONS)[number];
+};
+
+/**
+ * A health guard, as created by `createHealthGuard`.
+ */
+export type HealthGuard = ReturnType<typeof createHealthGuard>;
+
+/**
+ * Creates a health guard, which checks the galaxies after each step, culls or freezes stars
+ * that have gone too far, and rolls back to the last healthy state if the simulation blows up.
+ * @param options - The health guard options.
+ * @returns The health guard.
+ * @throws Error if the escape radius isn't positive, the escape action isn't known or the
+ * checkpoint interval is negative
+ */
+export const createHealthGuard = (options: HealthGuardOptions = {}) => {
+  const {
+    escapeRadius = Infinity,
+    escapeAction = 'cull',
+    checkpointInterval = 50,
+    rollback = true,
+    onError,
+  } = options;
+  if (!(escapeRadius > 0)) {
+    throw new Error(`The escape radius must be positive, not ${escapeRadius}`);
+  }
+  checkEscapeAction(escapeAction);
+  if (!(checkpointInterval >= 0)) {
+    throw new Error(`The checkpoint interval can't be negative, not ${checkpointInterval}`);
+  }
+
+  let lastGood: Snapshot | null = null;
+  let frozen: FrozenStar[] = [];
+  let frozenAtLastGood: FrozenStar[] = [];
+
+  const report = (issues: HealthIssue[]) => {
+    issues.forEach((issue) => onError?.(issue));
+  };
+
+  /**
+   * Saves the state of the galaxies as the last healthy state.
+   * @param galaxies - The galaxies.
+   * @param config - The physics parameters the simulation is running with.
+   * @param step - The step the simulation is at.
+   */
+  const checkpoint = (galaxies: Galaxy[], config: Partial<PhysicsConfig>, step: number) => {
+    lastGood = createSnapshot(galaxies, config, step);
+    frozenAtLastGood = [...frozen];
+  };
+
+  return {
+    /**
+     * The last healthy state saved, if any.
+     */
+    get lastGood(): Snapshot | null {
+      return lastGood;
+    },
+
+    /**
+     * The stars that have been frozen, which should still be drawn.
+     */
+    get frozen(): readonly FrozenStar[] {
+      return frozen;
+    },
+
+    checkpoint,
+
+    /**
+     * Checks the galaxies after a step. Escaped stars are culled or frozen, and if anything
+     * isn't finite the galaxies are rolled back to the last healthy state. A healthy state is
+     * saved every `checkpointInterval` steps.
+     * @param galaxies - The galaxies. Modified in place.
+     * @param config - The physics parameters the simulation is running with.
+     * @param step - The step the simulation is at.
+     * @returns What was found, and the step the simulation is now at.
+     */
+    check: (
+      galaxies: Galaxy[],
+      config: Partial<PhysicsConfig>,
+      step: number,
+    ): HealthCheckResult => {
+      const broken = findNonFinite(galaxies, step);
+      if (broken.length > 0) {
+        report(broken);
+        if (!rollback || !lastGood) {
+          return { status: 'corrupt', issues: broken, removed: [], step };
+        }
+        // Replace the contents of the array, so that anything holding it sees the restored
+        // galaxies
+        const restored = restoreSnapshot(lastGood);
+        galaxies.splice(0, galaxies.length, ...restored.galaxies);
+        frozen = [...frozenAtLastGood];
+        return { status: 'rolled-back', issues: broken, removed: [], step: restored.step };
+      }
+
+      const escaped = Number.isFinite(escapeRadius)
+        ? removeEscapedStars(galaxies, escapeRadius)
+        : [];
+      if (escapeAction === 'freeze') {
+        frozen.push(...escaped);
+      }
+      const issues = escaped.map(
+        ({ star, galaxy }): HealthIssue => ({
+          kind: 'escaped',
+          galaxy,
+          star,
+          step,
+          message: `A star of galaxy ${galaxy.id} went beyond the escape radius of ${escapeRadius} at step ${step}`,
+        }),
+      );
+      report(issues);
+
+      if (
+        !lastGood ||
+        (checkpointInterval > 0 && Math.abs(step - lastGood.step) >= checkpointInterval)
+      ) {
+        checkpoint(galaxies, config, step);
+      }
+      return {
+        status: 'healthy',
+        issues,
+        removed: escaped.map(({ star }) => star),
+        step,
+      };
+    },
+
+    /**
+     * Forgets the saved state and the frozen stars, for example when starting again with new
+     * galaxies.
+     */
+    reset: () => {
+      lastGood = null;
+      frozen = [];
+      frozenAtLastGood = [];
+    },
+  };
+};
@@ -1,3 +1,28 @@
 // Physics simulation functions
-export { createRandomGalaxy, updateGalaxies } from './simple';
-export { allStars, starCount } from './util';
+export * from './adaptive';
+export * from './barnes-hut';
+export * from './binding';
+export { computeAccelerations, createRandomGalaxy, updateGalaxies } from './simple';
+export type { Simulator } from './simple';
+export * from './config';
+export * from './diagnostics';
+export * from './events';
+export * from './forces';
+export * from './friction';
+export * from './gas';
+export * from './guard';
+export * from './integrators';
+export * from './interop';
+export * from './mergers';
+export * from './morphology';
+export * from './particles';
+export * from './profiles';
+export * from './recorder';
+export * from './reversibility';
+export * from './scenarios';
+export * from './snapshot';
+export * from './worker-simulator';
+export * from './softening';
+export * from './units';
+export { allBodies, allStars, starCount } from './util';
+export type { Body } from './util';
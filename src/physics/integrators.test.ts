@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { Galaxy, Star } from '../astro';
+import { Vec3 } from '../math';
+import { AccelerationFunction, getIntegrator, IntegratorName, INTEGRATORS } from './integrators';
+
+// A star on a circular orbit of radius 1 and period 2π around a fixed unit mass at the origin
+const createOrbit = () => {
+  const galaxy = new Galaxy(Vec3.zero(), Vec3.zero(), Vec3.zero(), 1);
+  galaxy.stars.push(new Star(new Vec3(1, 0, 0), new Vec3(0, 1, 0)));
+  return [galaxy];
+};
+
+const kepler: AccelerationFunction = (galaxies) => {
+  const pos = galaxies[0].stars[0].pos;
+  return [Vec3.zero(), pos.mul(-1 / pos.magnitude ** 3)];
+};
+
+/**
+ * Runs the orbit once round with the given integrator, and returns how far the star ends up
+ * from where it started.
+ */
+const orbitError = (name: IntegratorName, steps: number) => {
+  const galaxies = createOrbit();
+  const integrator = getIntegrator(name);
+  for (let i = 0; i < steps; i++) {
+    integrator(galaxies, (2 * Math.PI) / steps, kepler);
+  }
+  return galaxies[0].stars[0].pos.sub(new Vec3(1, 0, 0)).magnitude;
+};
+
+const names = Object.keys(INTEGRATORS) as IntegratorName[];
+
+describe('getIntegrator', () => {
+  it('only knows the built-in integrators', () => {
+    expect(getIntegrator('leapfrog')).toBe(INTEGRATORS.leapfrog);
+    expect(() => getIntegrator('verlet' as IntegratorName)).toThrow('Unknown integrator "verlet"');
+    expect(() => getIntegrator('toString' as IntegratorName)).toThrow('Unknown integrator');
+  });
+});
+
+describe('integrators', () => {
+  it('lets the standard Euler method spiral outwards', () => {
+    const galaxies = createOrbit();
+    for (let i = 0; i < 1000; i++) {
+      INTEGRATORS.euler(galaxies, 0.01, kepler);
+    }
+    expect(galaxies[0].stars[0].pos.magnitude).toBeGreaterThan(1.05);
+  });
+
+  it.each(names.filter((name) => name !== 'euler'))(
+    'keeps the radius of a circular orbit with %s',
+    (name) => {
+      const galaxies = createOrbit();
+      for (let i = 0; i < 1000; i++) {
+        INTEGRATORS[name](galaxies, 0.01, kepler);
+      }
+      expect(galaxies[0].stars[0].pos.magnitude).toBeCloseTo(1, 2);
+    },
+  );
+
+  it.each([
+    ['leapfrog', 2],
+    ['rk4', 4],
+    ['yoshida', 4],
+  ] as [IntegratorName, number][])('makes %s accurate to order %i', (name, order) => {
+    // Halving the step should divide the error by 2 to the power of the order. (The first order
+    // methods are left out: over a whole orbit, much of their error cancels out.)
+    const ratio = orbitError(name, 200) / orbitError(name, 400);
+    expect(Math.log2(ratio)).toBeGreaterThan(order - 0.5);
+    expect(Math.log2(ratio)).toBeLessThan(order + 0.5);
+  });
+});
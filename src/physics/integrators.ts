@@ -0,0 +1,186 @@
+import { Galaxy } from '../astro';
+import { Vec3 } from '../math';
+import { allBodies, Body } from './util';
+
+/**
+ * Calculates the acceleration of every body in the simulation from the current positions
+ * (and, for some forces, velocities) of the galaxies and stars.
+ *
+ * The returned list is in the same order as `allBodies(galaxies)`: galaxies first, then stars.
+ */
+export type AccelerationFunction = (galaxies: Galaxy[]) => Vec3[];
+
+/**
+ * An integrator advances the simulation by one time step.
+ *
+ * It moves the bodies by updating their `pos` and `vel` in place, and calls `accelerate`
+ * whenever it needs to know the forces acting on them. Different integrators call it a
+ * different number of times per step, trading speed against accuracy and stability.
+ */
+export type Integrator = (
+  galaxies: Galaxy[],
+  timeStep: number,
+  accelerate: AccelerationFunction,
+) => void;
+
+/**
+ * The names of the built-in integrators.
+ */
+export type IntegratorName = 'euler' | 'symplectic-euler' | 'leapfrog' | 'rk4' | 'yoshida';
+
+/**
+ * Updates every body's velocity from its acceleration: v = v + a * Δt
+ */
+const kick = (bodies: Body[], accelerations: Vec3[], dt: number) => {
+  for (let i = 0; i < bodies.length; i++) {
+    bodies[i].vel = bodies[i].vel.add(accelerations[i].mul(dt));
+  }
+};
+
+/**
+ * Updates every body's position from its velocity: p = p + v * Δt
+ */
+const drift = (bodies: Body[], dt: number) => {
+  for (const body of bodies) {
+    body.pos = body.pos.add(body.vel.mul(dt));
+  }
+};
+
+/**
+ * The standard (explicit, or "forward") Euler method.
+ *
+ * Both the position and the velocity are updated from the values at the start of the step.
+ * It is the simplest possible method, but each step adds a little energy to an orbit, so
+ * stars slowly spiral outwards. It is included here to show why we don't use it!
+ */
+export const eulerIntegrator: Integrator = (galaxies, timeStep, accelerate) => {
+  const bodies = allBodies(galaxies);
+  const accelerations = accelerate(galaxies);
+  drift(bodies, timeStep);
+  kick(bodies, accelerations, timeStep);
+};
+
+/**
+ * The Symplectic Euler method.
+ *
+ * The velocity is updated first, and the position is then updated using the new velocity.
+ * This tiny change from the standard Euler method makes it symplectic: energy errors stay
+ * bounded instead of growing, so orbits remain stable over long runs.
+ */
+export const symplecticEulerIntegrator: Integrator = (galaxies, timeStep, accelerate) => {
+  const bodies = allBodies(galaxies);
+  const accelerations = accelerate(galaxies);
+  kick(bodies, accelerations, timeStep);
+  drift(bodies, timeStep);
+};
+
+/**
+ * The Leapfrog method, in its "kick-drift-kick" Velocity Verlet form.
+ *
+ * Half a velocity update, a full position update, then the second half of the velocity update
+ * using the acceleration at the new position. It is second-order accurate, symplectic and
+ * time-reversible, which is why it is the workhorse of most astrophysical simulations.
+ */
+export const leapfrogIntegrator: Integrator = (galaxies, timeStep, accelerate) => {
+  const bodies = allBodies(galaxies);
+  kick(bodies, accelerate(galaxies), timeStep / 2);
+  drift(bodies, timeStep);
+  kick(bodies, accelerate(galaxies), timeStep / 2);
+};
+
+/**
+ * The classic fourth-order Runge-Kutta method.
+ *
+ * It samples the acceleration at four points across the step and combines them in a weighted
+ * average. It is very accurate over a single step, but it is not symplectic, so over many
+ * orbits the energy slowly drifts.
+ */
+export const rk4Integrator: Integrator = (galaxies, timeStep, accelerate) => {
+  const bodies = allBodies(galaxies);
+  const startPos = bodies.map((body) => body.pos);
+  const startVel = bodies.map((body) => body.vel);
+
+  // Moves every body to an intermediate state, offset from the start of the step by the
+  // given derivatives, so that we can sample the acceleration there.
+  const setState = (dPos: Vec3[], dVel: Vec3[], dt: number) => {
+    for (let i = 0; i < bodies.length; i++) {
+      bodies[i].pos = startPos[i].add(dPos[i].mul(dt));
+      bodies[i].vel = startVel[i].add(dVel[i].mul(dt));
+    }
+  };
+
+  // Each stage k is a pair of derivatives: dp/dt = v and dv/dt = a
+  const k1Pos = startVel;
+  const k1Vel = accelerate(galaxies);
+
+  setState(k1Pos, k1Vel, timeStep / 2);
+  const k2Pos = bodies.map((body) => body.vel);
+  const k2Vel = accelerate(galaxies);
+
+  setState(k2Pos, k2Vel, timeStep / 2);
+  const k3Pos = bodies.map((body) => body.vel);
+  const k3Vel = accelerate(galaxies);
+
+  setState(k3Pos, k3Vel, timeStep);
+  const k4Pos = bodies.map((body) => body.vel);
+  const k4Vel = accelerate(galaxies);
+
+  // Combine the stages: y = y0 + Δt/6 * (k1 + 2*k2 + 2*k3 + k4)
+  for (let i = 0; i < bodies.length; i++) {
+    const dPos = k1Pos[i].add(k2Pos[i].mul(2)).add(k3Pos[i].mul(2)).add(k4Pos[i]);
+    const dVel = k1Vel[i].add(k2Vel[i].mul(2)).add(k3Vel[i].mul(2)).add(k4Vel[i]);
+    bodies[i].pos = startPos[i].add(dPos.mul(timeStep / 6));
+    bodies[i].vel = startVel[i].add(dVel.mul(timeStep / 6));
+  }
+};
+
+// The coefficients of Yoshida's fourth-order method. They are chosen so that the errors of
+// three leapfrog-like sub-steps (one of them backwards in time!) cancel out.
+const YOSHIDA_W1 = 1 / (2 - Math.cbrt(2));
+const YOSHIDA_W0 = -Math.cbrt(2) * YOSHIDA_W1;
+const YOSHIDA_DRIFTS = [YOSHIDA_W1 / 2, (YOSHIDA_W0 + YOSHIDA_W1) / 2];
+const YOSHIDA_KICKS = [YOSHIDA_W1, YOSHIDA_W0];
+
+/**
+ * Yoshida's fourth-order symplectic method.
+ *
+ * It chains together drifts and kicks with carefully chosen step sizes. It keeps all the
+ * good properties of the leapfrog method, but is fourth-order accurate for the cost of three
+ * acceleration calculations per step.
+ */
+export const yoshidaIntegrator: Integrator = (galaxies, timeStep, accelerate) => {
+  const bodies = allBodies(galaxies);
+  drift(bodies, YOSHIDA_DRIFTS[0] * timeStep);
+  kick(bodies, accelerate(galaxies), YOSHIDA_KICKS[0] * timeStep);
+  drift(bodies, YOSHIDA_DRIFTS[1] * timeStep);
+  kick(bodies, accelerate(galaxies), YOSHIDA_KICKS[1] * timeStep);
+  drift(bodies, YOSHIDA_DRIFTS[1] * timeStep);
+  kick(bodies, accelerate(galaxies), YOSHIDA_KICKS[0] * timeStep);
+  drift(bodies, YOSHIDA_DRIFTS[0] * timeStep);
+};
+
+/**
+ * The built-in integrators, by name.
+ */
+export const INTEGRATORS: Readonly<Record<IntegratorName, Integrator>> = Object.freeze({
+  euler: eulerIntegrator,
+  'symplectic-euler': symplecticEulerIntegrator,
+  leapfrog: leapfrogIntegrator,
+  rk4: rk4Integrator,
+  yoshida: yoshidaIntegrator,
+});
+
+/**
+ * Looks up a built-in integrator by name.
+ * @param name - The name of the integrator.
+ * @returns The integrator.
+ * @throws Error if there is no integrator with that name
+ */
+export const getIntegrator = (name: IntegratorName): Integrator => {
+  if (!Object.prototype.hasOwnProperty.call(INTEGRATORS, name)) {
+    throw new Error(
+      `Unknown integrator "${name}". Expected one of: ${Object.keys(INTEGRATORS).join(', ')}`,
+    );
+  }
+  return INTEGRATORS[name];
+};
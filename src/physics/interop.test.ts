@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { Galaxy, Star } from '../astro';
+import { Vec3 } from '../math';
+import { fromCSV, fromGadget, fromNpy, importParticles, toCSV, toGadget, toNpy } from './interop';
+
+// Values that 32 bit floats hold exactly, so that Gadget files round-trip too
+const createGalaxies = () => {
+  const first = new Galaxy(new Vec3(0.5, 0, 0), new Vec3(-2, 0, 0), Vec3.zero(), 1000);
+  first.stars.push(
+    new Star(new Vec3(-1.5, 0.25, 0), new Vec3(0.5, 0.75, 0), 0.5),
+    new Star(new Vec3(-2.5, -0.25, 0.125), new Vec3(0.5, -0.75, 0), 0.5),
+  );
+  const second = new Galaxy(new Vec3(-0.5, 0, 0), new Vec3(2, 0, 0), Vec3.zero(), 500);
+  second.stars.push(
+    new Star(new Vec3(2.5, 0.25, 0), new Vec3(-0.5, 0.5, 0), 0.25),
+    new Star(new Vec3(1.5, -0.25, 0), new Vec3(-0.5, -0.5, 0), 0.25),
+  );
+  return [first, second];
+};
+
+const xyz = (vec: Vec3) => [vec.x, vec.y, vec.z];
+
+// The parts of the galaxies that the formats store
+const summarise = (galaxies: Galaxy[]) =>
+  galaxies.map((galaxy) => ({
+    pos: xyz(galaxy.pos),
+    vel: xyz(galaxy.vel),
+    mass: galaxy.mass,
+    stars: galaxy.stars.map((star) => [...xyz(star.pos), ...xyz(star.vel), star.mass]),
+  }));
+
+const textBuffer = (text: string) => new TextEncoder().encode(text).buffer as ArrayBuffer;
+
+describe('CSV', () => {
+  it('round-trips the galaxies', () => {
+    const galaxies = createGalaxies();
+    expect(summarise(fromCSV(toCSV(galaxies)))).toEqual(summarise(galaxies));
+  });
+
+  it('rejects an empty cell instead of reading it as 0', () => {
+    const csv = 'type,galaxy,x,y,z,vx,vy,vz,mass\ncore,0,1,2,3,0,0,0,\n';
+    expect(() => fromCSV(csv)).toThrow('Row 2, column "mass" is empty');
+  });
+
+  it('rejects missing columns, unknown types and values that are not numbers', () => {
+    expect(() => fromCSV('')).toThrow('empty');
+    expect(() => fromCSV('type,x,y,z,vx,vy,vz\ncore,0,0,0,0,0,0\n')).toThrow('"mass" column');
+    expect(() => fromCSV('type,x,y,z,vx,vy,vz,mass\nplanet,0,0,0,0,0,0,1\n')).toThrow(
+      'unknown particle type',
+    );
+    expect(() => fromCSV('type,x,y,z,vx,vy,vz,mass\ncore,0,zero,0,0,0,0,1\n')).toThrow(
+      'not a finite number',
+    );
+  });
+
+  it('gives stars to the galaxy they are bound to without a galaxy column', () => {
+    // Drop the second column from every row
+    const csv = toCSV(createGalaxies()).replace(/^([^,]*),[^,]*/gm, '$1');
+    expect(fromCSV(csv).map((galaxy) => galaxy.stars.length)).toEqual([2, 2]);
+  });
+});
+
+describe('NumPy', () => {
+  it('round-trips the galaxies', () => {
+    const galaxies = createGalaxies();
+    expect(summarise(fromNpy(toNpy(galaxies)))).toEqual(summarise(galaxies));
+  });
+
+  it('rejects files that are not NumPy arrays of the right shape', () => {
+    expect(() => fromNpy(textBuffer('not numpy'))).toThrow();
+    const buffer = toNpy(createGalaxies());
+    expect(() => fromNpy(buffer.slice(0, buffer.byteLength - 8))).toThrow();
+  });
+});
+
+describe('Gadget', () => {
+  it('round-trips the galaxies', () => {
+    const galaxies = createGalaxies();
+    expect(summarise(fromGadget(toGadget(galaxies)))).toEqual(summarise(galaxies));
+  });
+
+  it('works out the core type when it is not given', () => {
+    const galaxies = createGalaxies();
+    const buffer = toGadget(galaxies, { coreType: 3, starType: 1 });
+    expect(summarise(fromGadget(buffer))).toEqual(summarise(galaxies));
+    expect(summarise(importParticles(buffer))).toEqual(summarise(galaxies));
+  });
+
+  it('uses the core type it is given', () => {
+    const buffer = toGadget(createGalaxies(), { coreType: 3, starType: 1 });
+    expect(fromGadget(buffer, { coreType: 1 })).toHaveLength(4);
+    expect(importParticles(buffer, {}, { coreType: 1 })).toHaveLength(4);
+    expect(() => fromGadget(buffer, { coreType: 6 })).toThrow('from 0 to 5');
+  });
+
+  it('rejects damaged and truncated files', () => {
+    const buffer = toGadget(createGalaxies());
+    expect(() => fromGadget(buffer.slice(0, 300))).toThrow('damaged or truncated');
+    const damaged = buffer.slice(0);
+    new DataView(damaged).setUint32(260, 7, true);
+    expect(() => fromGadget(damaged)).toThrow('damaged or truncated');
+  });
+});
+
+describe('importParticles', () => {
+  it('recognises each format', () => {
+    const galaxies = createGalaxies();
+    const expected = summarise(galaxies);
+    expect(summarise(importParticles(textBuffer(toCSV(galaxies))))).toEqual(expected);
+    expect(summarise(importParticles(toNpy(galaxies)))).toEqual(expected);
+    expect(summarise(importParticles(toGadget(galaxies)))).toEqual(expected);
+  });
+});
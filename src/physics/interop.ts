@@ -0,0 +1,531 @@
+import { Galaxy, Star } from '../astro';
+import { Vec3 } from '../math';
+import { findBindingGalaxy } from './binding';
+import { PhysicsConfig, resolvePhysicsConfig } from './config';
+
+/**
+ * Importing and exporting particles in formats used by other N-body tools.
+ *
+ * Snapshots (see `snapshot.ts`) save everything needed to resume a simulation, but only this
+ * project can read them. These formats only hold the particles - the position, velocity and
+ * mass of each galaxy core and star - but can be read by Python, spreadsheets and other
+ * simulation codes:
+ *  - CSV: one row per particle, with a header row naming the columns
+ *  - NumPy `.npy`: a 2D array of 64 bit floats with one row per particle, which
+ *    `numpy.load` reads directly
+ *  - Gadget format 1: the binary snapshot format of the Gadget simulation code, which many
+ *    tools read and write
+ *
+ * Each particle has a type that tells galaxy cores and stars apart. The CSV and NumPy
+ * formats also record which galaxy each particle belongs to. Gadget files don't, so stars
+ * read from them are given to the galaxy they are most tightly bound to, or the nearest
+ * one if they aren't bound to any.
+ *
+ * Galaxy orientations, mass profiles, softening lengths and `data` aren't part of these
+ * formats, so imported galaxies are point masses using the default softening.
+ */
+
+/**
+ * The columns of the CSV and NumPy formats, in order.
+ *  - `type`: 0 for a galaxy core, 1 for a star (`core` or `star` in CSV files)
+ *  - `galaxy`: the index of the galaxy the particle belongs to, counting cores in the order
+ *    they appear in the file
+ *  - `x`, `y`, `z`: the position
+ *  - `vx`, `vy`, `vz`: the velocity
+ *  - `mass`: the mass
+ */
+export const PARTICLE_COLUMNS = ['type', 'galaxy', 'x', 'y', 'z', 'vx', 'vy', 'vz', 'mass'];
+
+// The particle types used in NumPy files
+const CORE = 0;
+const STAR = 1;
+
+/**
+ * A single particle, as stored in the formats.
+ */
+type Particle = {
+  core: boolean;
+  // The index of the galaxy the particle belongs to, or -1 if it isn't known.
+  galaxy: number;
+  pos: Vec3;
+  vel: Vec3;
+  mass: number;
+};
+
+/**
+ * Lists every galaxy core followed by every star, like `allBodies`.
+ */
+const toParticles = (galaxies: Galaxy[]): Particle[] => [
+  ...galaxies.map((galaxy, i) => ({
+    core: true,
+    galaxy: i,
+    pos: galaxy.pos,
+    vel: galaxy.vel,
+    mass: galaxy.mass,
+  })),
+  ...galaxies.flatMap((galaxy, i) =>
+    galaxy.stars.map((star) => ({
+      core: false,
+      galaxy: i,
+      pos: star.pos,
+      vel: star.vel,
+      mass: star.mass,
+    })),
+  ),
+];
+
+/**
+ * Builds galaxies from a list of particles. Each core becomes a galaxy, in order, and each
+ * star joins the galaxy it belongs to.
+ * @throws Error if there are no cores, or a star belongs to a galaxy that doesn't exist
+ */
+const fromParticles = (particles: Particle[], config: Partial<PhysicsConfig>) => {
+  const galaxies = particles
+    .filter((particle) => particle.core)
+    .map((particle) => new Galaxy(particle.vel, particle.pos, Vec3.zero(), particle.mass));
+  if (galaxies.length === 0) {
+    throw new Error('There are no galaxy cores among the particles');
+  }
+
+  const resolved = resolvePhysicsConfig(config);
+  for (const particle of particles) {
+    if (particle.core) continue;
+    const star = new Star(particle.pos, particle.vel, particle.mass);
+    let galaxy: Galaxy | null;
+    if (particle.galaxy >= 0) {
+      galaxy = galaxies[particle.galaxy];
+      if (!galaxy) {
+        throw new Error(`A star belongs to galaxy ${particle.galaxy}, which doesn't exist`);
+      }
+    } else {
+      galaxy = findBindingGalaxy(star, galaxies, resolved) ?? nearestGalaxy(star, galaxies);
+    }
+    galaxy.stars.push(star);
+  }
+  return galaxies;
+};
+
+const nearestGalaxy = (star: Star, galaxies: Galaxy[]) =>
+  galaxies.reduce((nearest, galaxy) =>
+    galaxy.pos.sub(star.pos).magnitude < nearest.pos.sub(star.pos).magnitude ? galaxy : nearest,
+  );
+
+const checkNumber = (value: number, description: string) => {
+  if (!Number.isFinite(value)) {
+    throw new Error(`${description} is not a finite number`);
+  }
+  return value;
+};
+
+/**
+ * Exports the particles as CSV, with a header row.
+ * @param galaxies - The galaxies to export.
+ * @returns The CSV text.
+ */
+export const toCSV = (galaxies: Galaxy[]) => {
+  const rows = toParticles(galaxies).map(({ core, galaxy, pos, vel, mass }) =>
+    [core ? 'core' : 'star', galaxy, pos.x, pos.y, pos.z, vel.x, vel.y, vel.z, mass].join(','),
+  );
+  return [PARTICLE_COLUMNS.join(','), ...rows].join('\n') + '\n';
+};
+
+/**
+ * Imports particles from CSV. The first row must name the columns (see
+ * `PARTICLE_COLUMNS`), which can be in any order. Other columns are ignored, and if there
+ * is no `galaxy` column, stars are given to the galaxy they are bound to.
+ * @param csv - The CSV text.
+ * @param config - The physics parameters used to work out which galaxy a star is bound to.
+ * @returns The galaxies.
+ * @throws Error if a column is missing or a value can't be read
+ */
+export const fromCSV = (csv: string, config: Partial<PhysicsConfig> = {}) => {
+  const lines = csv.split(/\r?\n/).filter((line) => line.trim() !== '');
+  if (lines.length === 0) {
+    throw new Error('The CSV file is empty');
+  }
+  const header = lines[0].split(',').map((name) => name.trim().toLowerCase());
+  const column = (name: string) => {
+    const index = header.indexOf(name);
+    if (index < 0 && name !== 'galaxy') {
+      throw new Error(`The CSV file has no "${name}" column`);
+    }
+    return index;
+  };
+  const [type, galaxy, x, y, z, vx, vy, vz, mass] = PARTICLE_COLUMNS.map(column);
+
+  const particles = lines.slice(1).map((line, i) => {
+    const values = line.split(',').map((value) => value.trim());
+    const number = (index: number) => {
+      const description = `Row ${i + 2}, column "${header[index]}"`;
+      // Number('') is 0, so an empty cell would otherwise quietly become 0
+      if (!values[index]) {
+        throw new Error(`${description} is empty`);
+      }
+      return checkNumber(Number(values[index]), description);
+    };
+    const kind = (values[type] ?? '').toLowerCase();
+    if (kind !== 'core' && kind !== 'star' && kind !== String(CORE) && kind !== String(STAR)) {
+      throw new Error(`Row ${i + 2} has an unknown particle type: ${values[type]}`);
+    }
+    return {
+      core: kind === 'core' || kind === String(CORE),
+      galaxy: galaxy < 0 ? -1 : number(galaxy),
+      pos: new Vec3(number(x), number(y), number(z)),
+      vel: new Vec3(number(vx), number(vy), number(vz)),
+      mass: number(mass),
+    };
+  });
+  return fromParticles(particles, config);
+};
+
+const NPY_MAGIC = '\x93NUMPY';
+
+/**
+ * Exports the particles as a NumPy `.npy` file: a 2D array of little-endian 64 bit floats
+ * with one row per particle and the columns in `PARTICLE_COLUMNS`.
+ * @param galaxies - The galaxies to export.
+ * @returns The file contents.
+ */
+export const toNpy = (galaxies: Galaxy[]): ArrayBuffer => {
+  const particles = toParticles(galaxies);
+  const columns = PARTICLE_COLUMNS.length;
+
+  // The header is a Python dictionary, padded with spaces so that the data starts on a
+  // multiple of 64 bytes
+  let header = `{'descr': '<f8', 'fortran_order': False, 'shape': (${particles.length}, ${columns}), }`;
+  const prefixLength = NPY_MAGIC.length + 4;
+  header = header.padEnd(
+    Math.ceil((prefixLength + header.length + 1) / 64) * 64 - prefixLength - 1,
+  );
+  header += '\n';
+
+  const dataOffset = prefixLength + header.length;
+  const buffer = new ArrayBuffer(dataOffset + particles.length * columns * 8);
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  for (let i = 0; i < NPY_MAGIC.length; i++) {
+    bytes[i] = NPY_MAGIC.charCodeAt(i);
+  }
+  bytes[6] = 1; // Version 1.0
+  bytes[7] = 0;
+  view.setUint16(8, header.length, true);
+  for (let i = 0; i < header.length; i++) {
+    bytes[prefixLength + i] = header.charCodeAt(i);
+  }
+
+  let offset = dataOffset;
+  for (const { core, galaxy, pos, vel, mass } of particles) {
+    for (const value of [
+      core ? CORE : STAR,
+      galaxy,
+      pos.x,
+      pos.y,
+      pos.z,
+      vel.x,
+      vel.y,
+      vel.z,
+      mass,
+    ]) {
+      view.setFloat64(offset, value, true);
+      offset += 8;
+    }
+  }
+  return buffer;
+};
+
+/**
+ * Imports particles from a NumPy `.npy` file holding a 2D array of floats with one row per
+ * particle and the columns in `PARTICLE_COLUMNS`, as written by `toNpy`. 32 and 64 bit
+ * floats in either byte order are supported.
+ * @param buffer - The file contents.
+ * @param config - The physics parameters used to work out which galaxy a star is bound to.
+ * @returns The galaxies.
+ * @throws Error if the file isn't a `.npy` file, or doesn't hold a suitable array
+ */
+export const fromNpy = (buffer: ArrayBuffer, config: Partial<PhysicsConfig> = {}) => {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  if (buffer.byteLength < 10 || String.fromCharCode(...bytes.slice(0, 6)) !== NPY_MAGIC) {
+    throw new Error('Not a NumPy .npy file');
+  }
+  // Version 1 files have a 2 byte header length, and later versions a 4 byte one
+  const major = bytes[6];
+  const headerLength = major === 1 ? view.getUint16(8, true) : view.getUint32(8, true);
+  const headerStart = major === 1 ? 10 : 12;
+  const header = new TextDecoder().decode(bytes.slice(headerStart, headerStart + headerLength));
+
+  const descr = /'descr':\s*'([<>|=]?)f(4|8)'/.exec(header);
+  if (!descr) {
+    throw new Error('The .npy array must hold 32 or 64 bit floats');
+  }
+  if (/'fortran_order':\s*True/.test(header)) {
+    throw new Error('The .npy array must be stored in C order');
+  }
+  const shape = /'shape':\s*\((\d+),\s*(\d+)\)/.exec(header);
+  const columns = PARTICLE_COLUMNS.length;
+  if (!shape || Number(shape[2]) !== columns) {
+    throw new Error(`The .npy array must have ${columns} columns: ${PARTICLE_COLUMNS.join(', ')}`);
+  }
+
+  const littleEndian = descr[1] !== '>';
+  const size = Number(descr[2]);
+  const rows = Number(shape[1]);
+  let offset = headerStart + headerLength;
+  if (offset + rows * columns * size > buffer.byteLength) {
+    throw new Error('The .npy file is truncated');
+  }
+  const read = () => {
+    const value =
+      size === 8 ? view.getFloat64(offset, littleEndian) : view.getFloat32(offset, littleEndian);
+    offset += size;
+    return value;
+  };
+
+  const particles: Particle[] = [];
+  for (let i = 0; i < rows; i++) {
+    const [type, galaxy, x, y, z, vx, vy, vz, mass] = PARTICLE_COLUMNS.map((name) =>
+      checkNumber(read(), `Row ${i}, column "${name}"`),
+    );
+    if (type !== CORE && type !== STAR) {
+      throw new Error(`Row ${i} has an unknown particle type: ${type}`);
+    }
+    particles.push({
+      core: type === CORE,
+      galaxy,
+      pos: new Vec3(x, y, z),
+      vel: new Vec3(vx, vy, vz),
+      mass,
+    });
+  }
+  return fromParticles(particles, config);
+};
+
+/**
+ * Options for the Gadget format.
+ */
+export type GadgetOptions = {
+  // The Gadget particle type (0 to 5) used for galaxy cores. Defaults to 5, which Gadget
+  // calls "boundary" particles and is often used for black holes and other point masses. On
+  // import it defaults to the type with the fewest particles.
+  coreType?: number;
+  // The Gadget particle type used for stars. Defaults to 2, "disk" particles.
+  starType?: number;
+  // The simulation time written to the header.
+  time?: number;
+};
+
+const GADGET_TYPES = 6;
+const GADGET_HEADER_SIZE = 256;
+
+const checkGadgetType = (type: number, description: string) => {
+  if (!Number.isInteger(type) || type < 0 || type >= GADGET_TYPES) {
+    throw new Error(`The Gadget ${description} must be a whole number from 0 to 5`);
+  }
+  return type;
+};
+
+/**
+ * Exports the particles as a Gadget format 1 snapshot.
+ *
+ * The file is a series of Fortran-style blocks, each with its length in bytes before and
+ * after it: a 256 byte header with the number of particles of each type, then the
+ * positions, velocities, ids and masses, in order of particle type. Positions, velocities
+ * and masses are 32 bit floats, so some precision is lost. All numbers are little-endian.
+ * @param galaxies - The galaxies to export.
+ * @param options - The Gadget options.
+ * @returns The file contents.
+ * @throws Error if the core and star types are the same, or not valid Gadget types
+ */
+export const toGadget = (galaxies: Galaxy[], options: GadgetOptions = {}): ArrayBuffer => {
+  const coreType = checkGadgetType(options.coreType ?? 5, 'core type');
+  const starType = checkGadgetType(options.starType ?? 2, 'star type');
+  if (coreType === starType) {
+    throw new Error('Galaxy cores and stars must have different Gadget types');
+  }
+
+  // Gadget stores particles in order of type
+  const particles = toParticles(galaxies).sort(
+    (a, b) => (a.core ? coreType : starType) - (b.core ? coreType : starType),
+  );
+  const count = particles.length;
+  const counts = new Array(GADGET_TYPES).fill(0);
+  counts[coreType] = galaxies.length;
+  counts[starType] = count - galaxies.length;
+
+  const blocks = [GADGET_HEADER_SIZE, count * 12, count * 12, count * 4, count * 4];
+  const buffer = new ArrayBuffer(blocks.reduce((total, size) => total + size + 8, 0));
+  const view = new DataView(buffer);
+  let offset = 0;
+  const block = (size: number, write: () => void) => {
+    view.setUint32(offset, size, true);
+    offset += 4;
+    const end = offset + size;
+    write();
+    offset = end;
+    view.setUint32(offset, size, true);
+    offset += 4;
+  };
+
+  block(GADGET_HEADER_SIZE, () => {
+    const start = offset;
+    counts.forEach((n, i) => view.setInt32(start + i * 4, n, true)); // npart
+    // massarr stays 0, so every particle's mass is in the mass block
+    view.setFloat64(start + 72, options.time ?? 0, true); // time
+    counts.forEach((n, i) => view.setUint32(start + 96 + i * 4, n, true)); // npartTotal
+    view.setInt32(start + 124, 1, true); // num_files
+  });
+  block(count * 12, () => {
+    for (const { pos } of particles) {
+      for (const value of [pos.x, pos.y, pos.z]) {
+        view.setFloat32(offset, value, true);
+        offset += 4;
+      }
+    }
+  });
+  block(count * 12, () => {
+    for (const { vel } of particles) {
+      for (const value of [vel.x, vel.y, vel.z]) {
+        view.setFloat32(offset, value, true);
+        offset += 4;
+      }
+    }
+  });
+  block(count * 4, () => {
+    for (let i = 0; i < count; i++) {
+      view.setUint32(offset, i + 1, true);
+      offset += 4;
+    }
+  });
+  block(count * 4, () => {
+    for (const { mass } of particles) {
+      view.setFloat32(offset, mass, true);
+      offset += 4;
+    }
+  });
+  return buffer;
+};
+
+/**
+ * Imports particles from a little-endian Gadget format 1 snapshot. Particles of the core
+ * type become galaxies, and particles of every other type become stars.
+ *
+ * Other tools put point masses such as black holes under different types, so if no core type
+ * is given it is worked out from the file: the type with the fewest particles, or of those the
+ * one with the heaviest particles on average.
+ * @param buffer - The file contents.
+ * @param options - The Gadget options. Only `coreType` is used.
+ * @param config - The physics parameters used to work out which galaxy a star is bound to.
+ * @returns The galaxies.
+ * @throws Error if the file isn't a Gadget format 1 snapshot
+ */
+export const fromGadget = (
+  buffer: ArrayBuffer,
+  options: GadgetOptions = {},
+  config: Partial<PhysicsConfig> = {},
+) => {
+  if (options.coreType !== undefined) {
+    checkGadgetType(options.coreType, 'core type');
+  }
+  const view = new DataView(buffer);
+  let offset = 0;
+
+  // Reads the next block, checking that its length markers match
+  const block = (description: string, expectedSize?: number) => {
+    if (offset + 4 > buffer.byteLength) {
+      throw new Error(`The Gadget file has no ${description} block`);
+    }
+    const size = view.getUint32(offset, true);
+    const start = offset + 4;
+    if (
+      (expectedSize !== undefined && size !== expectedSize) ||
+      start + size + 4 > buffer.byteLength ||
+      view.getUint32(start + size, true) !== size
+    ) {
+      throw new Error(`The Gadget file's ${description} block is damaged or truncated`);
+    }
+    offset = start + size + 4;
+    return start;
+  };
+
+  const header = block('header', GADGET_HEADER_SIZE);
+  const counts: number[] = [];
+  const massTable: number[] = [];
+  for (let i = 0; i < GADGET_TYPES; i++) {
+    counts.push(view.getInt32(header + i * 4, true));
+    massTable.push(view.getFloat64(header + 24 + i * 8, true));
+  }
+  const count = counts.reduce((total, n) => total + n, 0);
+  if (counts.some((n) => n < 0)) {
+    throw new Error('The Gadget header has negative particle counts');
+  }
+
+  const positions = block('position', count * 12);
+  const velocities = block('velocity', count * 12);
+  block('id');
+  // Only the types without a fixed mass in the header have masses in the mass block
+  const massCount = counts.reduce((total, n, i) => (massTable[i] === 0 ? total + n : total), 0);
+  const masses = massCount > 0 ? block('mass', massCount * 4) : 0;
+
+  const types: number[] = [];
+  const particles: Particle[] = [];
+  const totalMasses = new Array(GADGET_TYPES).fill(0);
+  let index = 0;
+  let massIndex = 0;
+  counts.forEach((n, type) => {
+    for (let i = 0; i < n; i++, index++) {
+      const vector = (start: number) =>
+        new Vec3(
+          view.getFloat32(start + index * 12, true),
+          view.getFloat32(start + index * 12 + 4, true),
+          view.getFloat32(start + index * 12 + 8, true),
+        );
+      const mass =
+        massTable[type] === 0 ? view.getFloat32(masses + massIndex++ * 4, true) : massTable[type];
+      totalMasses[type] += mass;
+      types.push(type);
+      particles.push({
+        core: false,
+        galaxy: -1,
+        pos: vector(positions),
+        vel: vector(velocities),
+        mass,
+      });
+    }
+  });
+
+  const coreType =
+    options.coreType ??
+    counts.reduce((best, n, type) => {
+      if (n === 0) return best;
+      if (best < 0 || n < counts[best]) return type;
+      return n === counts[best] && totalMasses[type] > totalMasses[best] ? type : best;
+    }, -1);
+  particles.forEach((particle, i) => {
+    particle.core = types[i] === coreType;
+  });
+  return fromParticles(particles, config);
+};
+
+/**
+ * Imports particles from a file in any of the supported formats, working out which one it
+ * is from its contents.
+ * @param buffer - The file contents.
+ * @param config - The physics parameters used to work out which galaxy a star is bound to.
+ * @param gadget - The options for Gadget files, such as the core type.
+ * @returns The galaxies.
+ * @throws Error if the format isn't recognised, or the file can't be read
+ */
+export const importParticles = (
+  buffer: ArrayBuffer,
+  config: Partial<PhysicsConfig> = {},
+  gadget: GadgetOptions = {},
+) => {
+  const bytes = new Uint8Array(buffer);
+  if (String.fromCharCode(...bytes.slice(0, 6)) === NPY_MAGIC) {
+    return fromNpy(buffer, config);
+  }
+  if (buffer.byteLength >= 4 && new DataView(buffer).getUint32(0, true) === GADGET_HEADER_SIZE) {
+    return fromGadget(buffer, gadget, config);
+  }
+  return fromCSV(new TextDecoder().decode(bytes), config);
+};
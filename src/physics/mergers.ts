@@ -0,0 +1,177 @@
+import { Galaxy } from '../astro';
+import { PhysicsConfig, resolvePhysicsConfig } from './config';
+import { Simulator, updateGalaxies } from './simple';
+import { galaxyPairPotentialFactor } from './profiles';
+
+/**
+ * Galaxy mergers.
+ *
+ * Each galaxy's core is a single point mass, so when two cores pass very close to each other
+ * nothing stops them: they whip around each other and fly apart at huge speeds. Real galaxies
+ * are extended, and a close pass churns up so much of their mass that they lose their orbital
+ * energy and settle down into one galaxy.
+ *
+ * We approximate this by merging two cores once they come within a capture radius of each
+ * other while moving slowly enough to be gravitationally bound. The merged core keeps the
+ * total mass and momentum of the pair, and takes over the stars of both galaxies.
+ */
+
+/**
+ * Options for detecting mergers.
+ */
+export type MergerOptions = {
+  // Cores closer than this distance can merge.
+  captureRadius?: number;
+  // Cores moving faster than this relative to each other fly past instead of merging.
+  // Defaults to their escape speed, so that only gravitationally bound pairs merge.
+  maxRelativeSpeed?: number;
+  // Called after each merger.
+  onMerge?: (event: MergeEvent) => void;
+};
+
+/**
+ * Describes a merger between two galaxies.
+ */
+export type MergeEvent = {
+  // The galaxy that remains, which now holds the combined mass and stars of both.
+  survivor: Galaxy;
+  // The galaxy that was absorbed and removed from the simulation.
+  absorbed: Galaxy;
+  // The mass of the survivor before the merger.
+  survivorMass: number;
+  // The mass of the absorbed galaxy.
+  absorbedMass: number;
+  // The relative speed of the cores when they merged.
+  relativeSpeed: number;
+};
+
+/**
+ * Checks whether two galaxies are close enough, and moving slowly enough, to merge.
+ * @param a - The first galaxy.
+ * @param b - The second galaxy.
+ * @param config - The physics parameters to use.
+ * @param options - The merger options.
+ * @returns True if the galaxies should merge.
+ */
+export const shouldMerge = (
+  a: Galaxy,
+  b: Galaxy,
+  config: Partial<PhysicsConfig> = {},
+  options: MergerOptions = {},
+) => {
+  const resolved = resolvePhysicsConfig(config);
+  const { captureRadius = 0.1, maxRelativeSpeed } = options;
+
+  const dist = a.pos.sub(b.pos).magnitude;
+  if (dist > captureRadius) return false;
+
+  const relativeSpeed = a.vel.sub(b.vel).magnitude;
+  if (maxRelativeSpeed !== undefined) {
+    return relativeSpeed <= maxRelativeSpeed;
+  }
+
+  // The escape speed of the pair: v² = 2 G (m₁ + m₂) / r, softened like the force
+  const escapeSpeedSq =
+    2 *
+    resolved.gravitationalConstant *
+    (a.mass + b.mass) *
+    galaxyPairPotentialFactor(a, b, dist, resolved);
+  return relativeSpeed * relativeSpeed < escapeSpeedSq;
+};
+
+/**
+ * Merges two galaxies. The heavier galaxy survives and absorbs the lighter one.
+ *
+ * The survivor moves to the pair's centre of mass with the pair's total momentum, so both
+ * mass and momentum are conserved, and its `stars` array is replaced by one holding the
+ * stars of both galaxies. The absorbed galaxy is left unchanged, but is no longer part of
+ * the simulation.
+ * @param a - The first galaxy.
+ * @param b - The second galaxy.
+ * @returns A description of the merger.
+ */
+export const mergeGalaxies = (a: Galaxy, b: Galaxy): MergeEvent => {
+  const [survivor, absorbed] = b.mass > a.mass ? [b, a] : [a, b];
+  const survivorMass = survivor.mass;
+  const absorbedMass = absorbed.mass;
+  const mass = survivorMass + absorbedMass;
+  const relativeSpeed = a.vel.sub(b.vel).magnitude;
+
+  // Weight by mass, or equally if neither galaxy has any
+  const weight = mass > 0 ? absorbedMass / mass : 0.5;
+  survivor.pos = survivor.pos.add(absorbed.pos.sub(survivor.pos).mul(weight));
+  survivor.vel = survivor.vel.add(absorbed.vel.sub(survivor.vel).mul(weight));
+  survivor.mass = mass;
+  survivor.stars = [...survivor.stars, ...absorbed.stars];
+
+  return { survivor, absorbed, survivorMass, absorbedMass, relativeSpeed };
+};
+
+/**
+ * Finds the closest pair of galaxies that should merge.
+ */
+const findMerger = (galaxies: Galaxy[], config: PhysicsConfig, options: MergerOptions) => {
+  let closest: [Galaxy, Galaxy] | null = null;
+  let closestDistSq = Infinity;
+  for (let i = 0; i < galaxies.length; i++) {
+    for (let j = i + 1; j < galaxies.length; j++) {
+      const a = galaxies[i];
+      const b = galaxies[j];
+      const distSq = a.pos.sub(b.pos).magnitude ** 2;
+      if (distSq < closestDistSq && shouldMerge(a, b, config, options)) {
+        closest = [a, b];
+        closestDistSq = distSq;
+      }
+    }
+  }
+  return closest;
+};
+
+/**
+ * Merges every pair of galaxies that should merge, closest pairs first.
+ *
+ * Absorbed galaxies are removed from the array in place, so the caller's array stays up to
+ * date. A galaxy that has just merged can merge again with a third one in the same call.
+ * @param galaxies - The galaxies to check. Modified in place.
+ * @param config - The physics parameters to use.
+ * @param options - The merger options.
+ * @returns The mergers that took place, in order.
+ */
+export const applyMergers = (
+  galaxies: Galaxy[],
+  config: Partial<PhysicsConfig> = {},
+  options: MergerOptions = {},
+) => {
+  const resolved = resolvePhysicsConfig(config);
+  const events: MergeEvent[] = [];
+
+  let pair = findMerger(galaxies, resolved, options);
+  while (pair) {
+    const event = mergeGalaxies(pair[0], pair[1]);
+    galaxies.splice(galaxies.indexOf(event.absorbed), 1);
+    events.push(event);
+    options.onMerge?.(event);
+    pair = findMerger(galaxies, resolved, options);
+  }
+
+  return events;
+};
+
+/**
+ * Creates a simulator that merges galaxies after every step.
+ * @param options - The merger options.
+ * @param simulator - The simulator that advances the galaxies. Defaults to the standard one.
+ * @returns The simulator.
+ */
+export const createMergingSimulator = (
+  options: MergerOptions = {},
+  simulator: Simulator = { updateGalaxies },
+): Simulator => ({
+  updateGalaxies: (galaxies: Galaxy[], config: Partial<PhysicsConfig> = {}) => {
+    if (simulator.updateGalaxies(galaxies, config) === false) {
+      return false;
+    }
+    applyMergers(galaxies, config, options);
+    return true;
+  },
+});
@@ -0,0 +1,305 @@
+import { RandomSource, Vec3 } from '../math';
+
+/**
+ * Galaxy morphology: the shape of the distribution of stars in a galaxy.
+ *
+ * The original screensaver scatters stars uniformly in radius across a thin disk. Real
+ * galaxies come in recognisable types: spirals have an exponential disk with a central bulge
+ * and spiral arms, ellipticals are a ball of stars on randomly oriented orbits, and ring
+ * galaxies have most of their stars in a ring around a small core. A `Morphology` describes
+ * these features, and `createRandomGalaxy` uses it to place the stars.
+ *
+ * Lengths are given as fractions of the galaxy's radius, so the same morphology can be used
+ * for galaxies of any size.
+ */
+export type Morphology = {
+  // The scale length of an exponential disk, in which the density of stars falls by a
+  // factor of e every scale length. If not set, stars are spread uniformly in radius.
+  diskScaleLength?: number;
+  // The scale height of the disk. If not set, the disk is thicker near the centre.
+  diskScaleHeight?: number;
+  // The fraction of stars in a spherical bulge rather than the disk, from 0 to 1.
+  bulgeFraction?: number;
+  // The scale radius of the bulge, which follows a Hernquist profile.
+  bulgeRadius?: number;
+  // If set, disk stars are placed in a ring of this radius instead of a filled disk.
+  ringRadius?: number;
+  // The width (standard deviation) of the ring.
+  ringWidth?: number;
+  // The number of spiral arms. Disk stars are placed along the arms.
+  armCount?: number;
+  // The pitch angle of the spiral arms in degrees: how tightly they are wound. Small
+  // angles give tightly wound arms.
+  armPitch?: number;
+  // How far stars are spread either side of an arm, in radians.
+  armWidth?: number;
+  // The random velocity of each star, as a fraction of its circular orbital speed. Real
+  // stars don't move on perfect circles, and a little dispersion keeps a disk from looking
+  // artificially neat.
+  velocityDispersion?: number;
+  // Whether the disk spins the other way. This matters in encounters: stars orbiting in
+  // the same direction as a passing galaxy (prograde) are torn out into long tidal tails,
+  // while retrograde disks are barely disturbed.
+  retrograde?: boolean;
+  // The tilt of the disk in degrees: 0 is face-on to the viewer, 90 is edge-on. If not set,
+  // the galaxy is given a random orientation.
+  inclination?: number;
+  // The direction the disk is tilted in, in degrees, measured in the plane of the screen.
+  positionAngle?: number;
+};
+
+/**
+ * The names of the built-in morphologies.
+ */
+export type MorphologyName = 'classic' | 'spiral' | 'lenticular' | 'elliptical' | 'ring';
+
+/**
+ * Built-in morphologies for common types of galaxy.
+ */
+export const MORPHOLOGIES: Readonly<Record<MorphologyName, Morphology>> = Object.freeze({
+  // The original screensaver's uniform disk.
+  classic: {},
+  // A disk galaxy with a small bulge and two spiral arms, like the Milky Way.
+  spiral: {
+    diskScaleLength: 0.3,
+    diskScaleHeight: 0.03,
+    bulgeFraction: 0.15,
+    bulgeRadius: 0.08,
+    armCount: 2,
+    armPitch: 15,
+    armWidth: 0.35,
+    velocityDispersion: 0.05,
+  },
+  // A disk galaxy with a large bulge and no arms.
+  lenticular: {
+    diskScaleLength: 0.3,
+    diskScaleHeight: 0.05,
+    bulgeFraction: 0.4,
+    bulgeRadius: 0.1,
+    velocityDispersion: 0.1,
+  },
+  // A ball of stars on randomly oriented orbits.
+  elliptical: {
+    bulgeFraction: 1,
+    bulgeRadius: 0.25,
+    velocityDispersion: 0.15,
+  },
+  // A ring of stars around a small core.
+  ring: {
+    diskScaleHeight: 0.02,
+    bulgeFraction: 0.2,
+    bulgeRadius: 0.08,
+    ringRadius: 0.7,
+    ringWidth: 0.05,
+    velocityDispersion: 0.03,
+  },
+});
+
+/**
+ * Looks up a morphology by name, or returns the given morphology unchanged.
+ * @param morphology - The morphology, or the name of a built-in one.
+ * @returns The morphology.
+ * @throws Error if the name isn't a built-in morphology
+ */
+export const resolveMorphology = (morphology: Morphology | MorphologyName): Morphology => {
+  if (typeof morphology !== 'string') return morphology;
+  // Check the name is one of ours, and not something inherited like "toString"
+  if (!Object.prototype.hasOwnProperty.call(MORPHOLOGIES, morphology)) {
+    throw new Error(`Unknown morphology: ${morphology}`);
+  }
+  return MORPHOLOGIES[morphology];
+};
+
+/**
+ * Draws a random number from a normal distribution with mean 0 and standard deviation 1,
+ * using the Box-Muller transform.
+ */
+const gaussian = (random: RandomSource) => {
+  const u = 1 - random(); // Avoid log(0)
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+};
+
+/**
+ * Draws a random direction, uniformly over the sphere.
+ */
+const randomDirection = (random: RandomSource) => {
+  const z = 2 * random() - 1;
+  const angle = 2 * Math.PI * random();
+  const r = Math.sqrt(1 - z * z);
+  return new Vec3(r * Math.cos(angle), r * Math.sin(angle), z);
+};
+
+/**
+ * Draws a distance from the centre of an exponential disk. In an exponential disk the
+ * number of stars at radius r is proportional to r e^(-r/h), which is the distribution of
+ * the sum of two exponentially distributed numbers.
+ */
+const exponentialDiskRadius = (scaleLength: number, maxRadius: number, random: RandomSource) => {
+  // Draw again if the star lands outside the galaxy. This rarely takes more than a few tries.
+  for (let attempt = 0; attempt < 100; attempt++) {
+    const r = -scaleLength * Math.log((1 - random()) * (1 - random()));
+    if (r <= maxRadius) return r;
+  }
+  return maxRadius;
+};
+
+/**
+ * Draws a distance from the centre of a Hernquist bulge with scale radius a, cut off at a
+ * maximum radius. The fraction of the bulge within r is r² / (r + a)², which can be inverted
+ * directly.
+ */
+const hernquistRadius = (scaleRadius: number, maxRadius: number, random: RandomSource) => {
+  const maxFraction = (maxRadius / (maxRadius + scaleRadius)) ** 2;
+  const s = Math.sqrt(random() * maxFraction);
+  return (scaleRadius * s) / (1 - s);
+};
+
+/**
+ * A star's position in its galaxy's local coordinate system, in which the disk lies in the
+ * x-y plane.
+ */
+export type LocalStar = {
+  // The position relative to the galaxy's centre.
+  pos: Vec3;
+  // Whether the star is part of the bulge rather than the disk.
+  inBulge: boolean;
+};
+
+/**
+ * Picks a random position for a star in a galaxy with the given morphology.
+ * @param morphology - The morphology of the galaxy.
+ * @param galaxyRadius - The radius of the galaxy.
+ * @param random - The source of random numbers.
+ * @returns The star's local position.
+ */
+export const sampleStarPosition = (
+  morphology: Morphology,
+  galaxyRadius: number,
+  random: RandomSource = Math.random,
+): LocalStar => {
+  const {
+    diskScaleLength,
+    diskScaleHeight,
+    bulgeFraction = 0,
+    ringRadius,
+    ringWidth = 0.05,
+    armCount = 0,
+    armPitch = 15,
+    armWidth = 0.3,
+  } = morphology;
+
+  if (random() < bulgeFraction) {
+    const r = hernquistRadius((morphology.bulgeRadius ?? 0.1) * galaxyRadius, galaxyRadius, random);
+    return { pos: randomDirection(random).mul(r), inBulge: true };
+  }
+
+  // 1. The distance from the centre
+  let r: number;
+  if (ringRadius !== undefined) {
+    r = Math.abs((ringRadius + ringWidth * gaussian(random)) * galaxyRadius);
+  } else if (diskScaleLength !== undefined) {
+    r = exponentialDiskRadius(diskScaleLength * galaxyRadius, galaxyRadius, random);
+  } else {
+    r = random() * galaxyRadius;
+  }
+
+  // 2. The angle around the disk. Spiral arms are logarithmic spirals, which cross every
+  // circle around the centre at the same (pitch) angle: θ = ln(r) / tan(pitch).
+  let angle: number;
+  if (armCount > 0 && r > 0) {
+    const arm = Math.floor(random() * armCount);
+    const winding = Math.log(r / galaxyRadius) / Math.tan((armPitch * Math.PI) / 180);
+    angle = winding + (2 * Math.PI * arm) / armCount + armWidth * gaussian(random);
+  } else {
+    angle = 2 * Math.PI * random();
+  }
+
+  // 3. The height above or below the disk. An exponential scale height if given, otherwise
+  // the original disk, which is thicker towards the centre.
+  let height: number;
+  if (diskScaleHeight !== undefined) {
+    height = -diskScaleHeight * galaxyRadius * Math.log(1 - random());
+  } else {
+    height = ((random() * Math.exp(-2 * (r / galaxyRadius))) / 5) * galaxyRadius;
+  }
+  if (random() < 0.5) {
+    height = -height;
+  }
+
+  return {
+    pos: new Vec3(r * Math.cos(angle), r * Math.sin(angle), height),
+    inBulge: false,
+  };
+};
+
+/**
+ * Picks the velocity of a star relative to its galaxy's centre, in the galaxy's local
+ * coordinate system.
+ *
+ * Disk stars orbit around the z axis. Bulge stars orbit in random directions, so the bulge
+ * as a whole doesn't rotate. Both get a random velocity on top, for the velocity dispersion.
+ * @param star - The star's local position.
+ * @param orbitalSpeed - The speed of a circular orbit at the star's distance.
+ * @param morphology - The morphology of the galaxy.
+ * @param random - The source of random numbers.
+ * @returns The star's local velocity.
+ */
+export const sampleStarVelocity = (
+  star: LocalStar,
+  orbitalSpeed: number,
+  morphology: Morphology,
+  random: RandomSource = Math.random,
+) => {
+  const { velocityDispersion = 0, retrograde = false } = morphology;
+
+  let direction: Vec3;
+  if (star.inBulge) {
+    // Any direction perpendicular to the position gives a circular orbit
+    direction = star.pos.cross(randomDirection(random));
+  } else {
+    // For a position (x,y), a perpendicular vector is (-y,x)
+    direction = new Vec3(-star.pos.y, star.pos.x, 0);
+    if (retrograde) {
+      direction = direction.mul(-1);
+    }
+  }
+
+  // A star exactly at the centre has no orbit to follow
+  const length = direction.magnitude;
+  let velocity = length > 0 ? direction.mul(orbitalSpeed / length) : Vec3.zero();
+  if (velocityDispersion > 0) {
+    const dispersion = velocityDispersion * orbitalSpeed;
+    velocity = velocity.add(
+      new Vec3(gaussian(random), gaussian(random), gaussian(random)).mul(dispersion),
+    );
+  }
+  return velocity;
+};
+
+/**
+ * Calculates the direction a disk faces from its inclination and position angle.
+ * @param inclination - The tilt of the disk in degrees: 0 is face-on, 90 is edge-on.
+ * @param positionAngle - The direction of the tilt in degrees, in the plane of the screen.
+ * @returns The unit vector perpendicular to the disk.
+ */
+export const diskNormal = (inclination: number, positionAngle: number = 0) => {
+  const i = (inclination * Math.PI) / 180;
+  const p = (positionAngle * Math.PI) / 180;
+  return new Vec3(Math.sin(i) * Math.sin(p), -Math.sin(i) * Math.cos(p), Math.cos(i));
+};
+
+/**
+ * Calculates a galaxy `rotation` (the Euler angles used by `Matrix3x3.fromEuler`) that turns
+ * the galaxy's disk to face the given direction.
+ *
+ * The rotation turns the local z axis to `R^T (0, 0, 1)`, which is the bottom row of the
+ * rotation matrix: (-sin y, cos y sin x, cos y cos x). Solving for x and y gives the tilt.
+ * The z angle just spins the disk within its own plane.
+ * @param normal - The direction perpendicular to the disk.
+ * @param spin - The angle the disk is spun by within its own plane, in radians.
+ * @returns The rotation.
+ */
+export const rotationFromNormal = (normal: Vec3, spin: number = 0) => {
+  const n = normal.normalize();
+  return new Vec3(Math.atan2(n.y, n.z), Math.asin(Math.max(-1, Math.min(1, -n.x))), spin);
+};
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { Galaxy, Star } from '../astro';
+import { Vec3 } from '../math';
+import { IntegratorName } from './integrators';
+import {
+  createParticleSimulator,
+  PARTICLE_STORE_INTEGRATORS,
+  ParticleStar,
+  ParticleStore,
+} from './particles';
+import { createMassProfile } from './profiles';
+import { updateGalaxies } from './simple';
+import { allBodies } from './util';
+
+const createGalaxies = () => {
+  const first = new Galaxy(new Vec3(0.5, 0, 0), new Vec3(-2, 0.5, 0), Vec3.zero(), 1000);
+  first.stars.push(
+    new Star(new Vec3(-3, 0.5, 0), new Vec3(0, 2, 0.1)),
+    new Star(new Vec3(-2, 1.5, 0.2), new Vec3(-2, 0, 0)),
+  );
+  const second = new Galaxy(new Vec3(-0.5, 0, 0), new Vec3(2, -0.5, 0), Vec3.zero(), 500);
+  second.profile = createMassProfile('plummer', 0.5);
+  second.stars.push(new Star(new Vec3(2.5, -0.5, 0), new Vec3(0, -1.5, 0)));
+  return [first, second];
+};
+
+const expectSameState = (actual: Galaxy[], expected: Galaxy[]) => {
+  const expectedBodies = allBodies(expected);
+  allBodies(actual).forEach((body, i) => {
+    for (const [a, b] of [
+      [body.pos, expectedBodies[i].pos],
+      [body.vel, expectedBodies[i].vel],
+    ]) {
+      expect(a.x).toBeCloseTo(b.x, 10);
+      expect(a.y).toBeCloseTo(b.y, 10);
+      expect(a.z).toBeCloseTo(b.z, 10);
+    }
+  });
+};
+
+describe('ParticleStore', () => {
+  it('replaces the stars with views onto its arrays', () => {
+    const galaxies = createGalaxies();
+    const store = new ParticleStore(galaxies);
+    const star = galaxies[1].stars[0] as ParticleStar;
+
+    expect(star).toBeInstanceOf(ParticleStar);
+    expect(star.index).toBe(2);
+    expect(star.pos).toEqual(new Vec3(2.5, -0.5, 0));
+    star.vel = new Vec3(1, 2, 3);
+    expect(Array.from(store.starVel.subarray(6, 9))).toEqual([1, 2, 3]);
+  });
+
+  it.each(PARTICLE_STORE_INTEGRATORS)(
+    'takes the same steps as updateGalaxies with %s',
+    (integrator) => {
+      const config = { integrator, timeStep: 0.01 };
+      const expected = createGalaxies();
+      const galaxies = createGalaxies();
+      const store = new ParticleStore(galaxies);
+      for (let i = 0; i < 50; i++) {
+        updateGalaxies(expected, config);
+        store.step(config);
+      }
+      expectSameState(galaxies, expected);
+    },
+  );
+
+  it('rejects the integrators it does not support', () => {
+    const store = new ParticleStore(createGalaxies());
+    expect(() => store.step({ integrator: 'rk4' })).toThrow('does not support the "rk4"');
+  });
+
+  it('notices when the stars have changed', () => {
+    const galaxies = createGalaxies();
+    const store = new ParticleStore(galaxies);
+    expect(store.isAttachedTo(galaxies)).toBe(true);
+    galaxies[0].stars.pop();
+    expect(store.isAttachedTo(galaxies)).toBe(false);
+    expect(store.isAttachedTo(createGalaxies())).toBe(false);
+  });
+});
+
+describe('createParticleSimulator', () => {
+  it.each(['leapfrog', 'rk4'] as IntegratorName[])(
+    'takes the same steps as updateGalaxies with %s',
+    (integrator) => {
+      const config = { integrator, timeStep: 0.01 };
+      const expected = createGalaxies();
+      const galaxies = createGalaxies();
+      const simulator = createParticleSimulator();
+      for (let i = 0; i < 20; i++) {
+        updateGalaxies(expected, config);
+        simulator.updateGalaxies(galaxies, config);
+      }
+      expectSameState(galaxies, expected);
+    },
+  );
+
+  it('moves stars added between steps into a new store', () => {
+    const galaxies = createGalaxies();
+    const simulator = createParticleSimulator();
+    simulator.updateGalaxies(galaxies);
+    galaxies[1].stars.push(new Star(new Vec3(1, -0.5, 0), new Vec3(0, 1, 0)));
+    simulator.updateGalaxies(galaxies);
+
+    const added = galaxies[1].stars[1] as ParticleStar;
+    expect(added).toBeInstanceOf(ParticleStar);
+    expect(added.store.starCount).toBe(4);
+    expect(added.pos.x).not.toBe(1);
+  });
+});
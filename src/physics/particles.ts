@@ -0,0 +1,342 @@
+import { Galaxy, Star } from '../astro';
+import { Vec3 } from '../math';
+import { subdivideTimeStep } from './adaptive';
+import { PhysicsConfig, resolvePhysicsConfig } from './config';
+import { IntegratorName } from './integrators';
+import { galaxyPairForceFactor, profileForceFactor } from './profiles';
+import { updateGalaxies } from './simple';
+import { softeningOf } from './softening';
+
+/**
+ * A performance-oriented way of storing and updating the simulation.
+ *
+ * The standard `updateGalaxies` is written for clarity: every vector operation creates a
+ * new immutable `Vec3`. With tens of thousands of stars that means hundreds of thousands of
+ * short-lived objects every frame, and the pauses while the garbage collector cleans them up
+ * become very noticeable.
+ *
+ * The particle store keeps the positions and velocities of all stars in a few large typed
+ * arrays instead (a "structure of arrays"), and updates them in place without creating any
+ * objects per star. The stars in each `galaxy.stars` array are replaced by lightweight
+ * `ParticleStar` views onto the arrays, so everything that reads `star.pos` or `star.vel`,
+ * including `allStars`, keeps working.
+ */
+
+/**
+ * The integrators the particle store supports. The others need to keep several copies of the
+ * state, which would defeat the purpose of the store.
+ */
+export const PARTICLE_STORE_INTEGRATORS: readonly IntegratorName[] = [
+  'euler',
+  'symplectic-euler',
+  'leapfrog',
+];
+
+/**
+ * A star whose position and velocity live in a `ParticleStore`.
+ *
+ * Reading `pos` or `vel` creates a new `Vec3` from the arrays, and assigning one writes it
+ * back. Code that needs to read every star without creating any objects (such as a
+ * high-performance renderer) can read the store's arrays directly using `index`.
+ */
+export class ParticleStar {
+  mass: number;
+  data: Record<string, unknown>;
+  readonly store: ParticleStore;
+  readonly index: number;
+
+  constructor(store: ParticleStore, index: number, mass: number, data: Record<string, unknown>) {
+    this.store = store;
+    this.index = index;
+    this.mass = mass;
+    this.data = data;
+  }
+
+  get pos() {
+    const i = this.index * 3;
+    const p = this.store.starPos;
+    return new Vec3(p[i], p[i + 1], p[i + 2]);
+  }
+
+  set pos(value: Vec3) {
+    const i = this.index * 3;
+    const p = this.store.starPos;
+    p[i] = value.x;
+    p[i + 1] = value.y;
+    p[i + 2] = value.z;
+  }
+
+  get vel() {
+    const i = this.index * 3;
+    const v = this.store.starVel;
+    return new Vec3(v[i], v[i + 1], v[i + 2]);
+  }
+
+  set vel(value: Vec3) {
+    const i = this.index * 3;
+    const v = this.store.starVel;
+    v[i] = value.x;
+    v[i + 1] = value.y;
+    v[i + 2] = value.z;
+  }
+}
+
+/**
+ * Holds the state of a set of galaxies in typed arrays, and updates it without allocating.
+ *
+ * Each array stores the x, y and z components of consecutive bodies next to each other, so
+ * the position of star `i` is `starPos[3 * i]`, `starPos[3 * i + 1]` and `starPos[3 * i + 2]`.
+ * Stars are numbered in the same order as `allStars`.
+ */
+export class ParticleStore {
+  readonly galaxies: Galaxy[];
+  readonly starCount: number;
+  readonly starPos: Float64Array;
+  readonly starVel: Float64Array;
+  readonly starAcc: Float64Array;
+  readonly galaxyPos: Float64Array;
+  readonly galaxyVel: Float64Array;
+  readonly galaxyAcc: Float64Array;
+  readonly galaxyMass: Float64Array;
+  readonly galaxySoftening: Float64Array;
+  private readonly starCounts: number[];
+  private readonly starArrays: Star[][];
+
+  /**
+   * Copies the state of the galaxies into a new store, and replaces their stars with views
+   * onto it.
+   * @param galaxies - The galaxies to store.
+   */
+  constructor(galaxies: Galaxy[]) {
+    this.galaxies = galaxies;
+    this.starCounts = galaxies.map((galaxy) => galaxy.stars.length);
+    this.starArrays = galaxies.map((galaxy) => galaxy.stars);
+    this.starCount = this.starCounts.reduce((acc, count) => acc + count, 0);
+
+    this.starPos = new Float64Array(this.starCount * 3);
+    this.starVel = new Float64Array(this.starCount * 3);
+    this.starAcc = new Float64Array(this.starCount * 3);
+    this.galaxyPos = new Float64Array(galaxies.length * 3);
+    this.galaxyVel = new Float64Array(galaxies.length * 3);
+    this.galaxyAcc = new Float64Array(galaxies.length * 3);
+    this.galaxyMass = new Float64Array(galaxies.length);
+    this.galaxySoftening = new Float64Array(galaxies.length);
+
+    let index = 0;
+    for (const galaxy of galaxies) {
+      for (let i = 0; i < galaxy.stars.length; i++) {
+        const star = galaxy.stars[i];
+        const view = new ParticleStar(this, index, star.mass, star.data);
+        view.pos = star.pos;
+        view.vel = star.vel;
+        galaxy.stars[i] = view;
+        index++;
+      }
+    }
+  }
+
+  /**
+   * Checks whether this store still holds the given galaxies. If stars have been added or
+   * removed, or the galaxies have been replaced, a new store is needed.
+   *
+   * This runs before every step, so it only compares the galaxies, their `stars` arrays and
+   * the number of stars in each, rather than every star. Stars should be added and removed
+   * by changing the length of a galaxy's `stars` array, or by replacing the array, rather
+   * than by overwriting a star in place.
+   * @param galaxies - The galaxies to check.
+   * @returns True if every galaxy and star is still backed by this store.
+   */
+  isAttachedTo(galaxies: Galaxy[]) {
+    return (
+      galaxies.length === this.galaxies.length &&
+      galaxies.every(
+        (galaxy, g) =>
+          galaxy === this.galaxies[g] &&
+          galaxy.stars === this.starArrays[g] &&
+          galaxy.stars.length === this.starCounts[g],
+      )
+    );
+  }
+
+  /**
+   * Advances the simulation by one time step.
+   *
+   * Only the `PARTICLE_STORE_INTEGRATORS` are supported.
+   * @param config - The physics parameters to use.
+   * @throws Error if the configured integrator isn't supported
+   */
+  step(config: Partial<PhysicsConfig> = {}) {
+    const resolved = resolvePhysicsConfig(config);
+    const dt = resolved.timeStep;
+
+    // The galaxies are few, so we read them from (and write them back to) the Galaxy
+    // objects on every step. That way any changes made to them outside the store are kept.
+    this.readGalaxies(resolved);
+
+    switch (resolved.integrator) {
+      case 'euler':
+        this.accelerate(resolved);
+        this.drift(dt);
+        this.kick(dt);
+        break;
+      case 'symplectic-euler':
+        this.accelerate(resolved);
+        this.kick(dt);
+        this.drift(dt);
+        break;
+      case 'leapfrog':
+        this.accelerate(resolved);
+        this.kick(dt / 2);
+        this.drift(dt);
+        this.accelerate(resolved);
+        this.kick(dt / 2);
+        break;
+      default:
+        throw new Error(
+          `The particle store does not support the "${resolved.integrator}" integrator`,
+        );
+    }
+
+    this.writeGalaxies();
+  }
+
+  private readGalaxies(config: PhysicsConfig) {
+    for (let g = 0; g < this.galaxies.length; g++) {
+      const galaxy = this.galaxies[g];
+      this.galaxyPos[g * 3] = galaxy.pos.x;
+      this.galaxyPos[g * 3 + 1] = galaxy.pos.y;
+      this.galaxyPos[g * 3 + 2] = galaxy.pos.z;
+      this.galaxyVel[g * 3] = galaxy.vel.x;
+      this.galaxyVel[g * 3 + 1] = galaxy.vel.y;
+      this.galaxyVel[g * 3 + 2] = galaxy.vel.z;
+      this.galaxyMass[g] = galaxy.mass;
+      this.galaxySoftening[g] = softeningOf(galaxy, config);
+    }
+  }
+
+  private writeGalaxies() {
+    for (let g = 0; g < this.galaxies.length; g++) {
+      const galaxy = this.galaxies[g];
+      const p = this.galaxyPos;
+      const v = this.galaxyVel;
+      galaxy.pos = new Vec3(p[g * 3], p[g * 3 + 1], p[g * 3 + 2]);
+      galaxy.vel = new Vec3(v[g * 3], v[g * 3 + 1], v[g * 3 + 2]);
+    }
+  }
+
+  /**
+   * Calculates the acceleration of every galaxy and star, exactly as `computeAccelerations`
+   * does, but writing the results into `galaxyAcc` and `starAcc`.
+   */
+  private accelerate(config: PhysicsConfig) {
+    const G = config.gravitationalConstant;
+    const kernel = config.softeningKernel;
+    const gPos = this.galaxyPos;
+    const gMass = this.galaxyMass;
+    const gSoft = this.galaxySoftening;
+    const galaxies = this.galaxies;
+    const galaxyCount = galaxies.length;
+
+    // 1. The galaxies pull on each other
+    for (let g = 0; g < galaxyCount; g++) {
+      let ax = 0;
+      let ay = 0;
+      let az = 0;
+      for (let o = 0; o < galaxyCount; o++) {
+        if (o === g) continue;
+        const dx = gPos[o * 3] - gPos[g * 3];
+        const dy = gPos[o * 3 + 1] - gPos[g * 3 + 1];
+        const dz = gPos[o * 3 + 2] - gPos[g * 3 + 2];
+        const factor =
+          G *
+          gMass[o] *
+          galaxyPairForceFactor(galaxies[o], galaxies[g], dx * dx + dy * dy + dz * dz, config);
+        ax += factor * dx;
+        ay += factor * dy;
+        az += factor * dz;
+      }
+      this.galaxyAcc[g * 3] = ax;
+      this.galaxyAcc[g * 3 + 1] = ay;
+      this.galaxyAcc[g * 3 + 2] = az;
+    }
+
+    // 2. Every galaxy pulls on every star
+    const sPos = this.starPos;
+    const sAcc = this.starAcc;
+    for (let s = 0; s < this.starCount; s++) {
+      const px = sPos[s * 3];
+      const py = sPos[s * 3 + 1];
+      const pz = sPos[s * 3 + 2];
+      let ax = 0;
+      let ay = 0;
+      let az = 0;
+      for (let o = 0; o < galaxyCount; o++) {
+        const dx = gPos[o * 3] - px;
+        const dy = gPos[o * 3 + 1] - py;
+        const dz = gPos[o * 3 + 2] - pz;
+        const factor =
+          G *
+          gMass[o] *
+          profileForceFactor(galaxies[o].profile, dx * dx + dy * dy + dz * dz, gSoft[o], kernel);
+        ax += factor * dx;
+        ay += factor * dy;
+        az += factor * dz;
+      }
+      sAcc[s * 3] = ax;
+      sAcc[s * 3 + 1] = ay;
+      sAcc[s * 3 + 2] = az;
+    }
+  }
+
+  /**
+   * Updates every velocity from its acceleration: v = v + a * Δt
+   */
+  private kick(dt: number) {
+    addScaled(this.galaxyVel, this.galaxyAcc, dt);
+    addScaled(this.starVel, this.starAcc, dt);
+  }
+
+  /**
+   * Updates every position from its velocity: p = p + v * Δt
+   */
+  private drift(dt: number) {
+    addScaled(this.galaxyPos, this.galaxyVel, dt);
+    addScaled(this.starPos, this.starVel, dt);
+  }
+}
+
+/**
+ * Adds a scaled copy of one array to another, in place: target = target + source * scale
+ */
+const addScaled = (target: Float64Array, source: Float64Array, scale: number) => {
+  for (let i = 0; i < target.length; i++) {
+    target[i] += source[i] * scale;
+  }
+};
+
+/**
+ * Creates a simulator backed by a `ParticleStore`, which is much faster than the standard one
+ * for large numbers of stars.
+ *
+ * The first time it sees a set of galaxies it moves them into a new store. If the galaxies
+ * or their stars change (for example when the web component creates new galaxies), a new
+ * store is created automatically. Integrators the store doesn't support, such as RK4, fall
+ * back to the standard `updateGalaxies`, which works on the store's stars at its usual speed.
+ * @returns The simulator.
+ */
+export const createParticleSimulator = () => {
+  let store: ParticleStore | null = null;
+  return {
+    updateGalaxies: (galaxies: Galaxy[], config: Partial<PhysicsConfig> = {}) => {
+      if (!PARTICLE_STORE_INTEGRATORS.includes(resolvePhysicsConfig(config).integrator)) {
+        updateGalaxies(galaxies, config);
+        return;
+      }
+      if (!store || !store.isAttachedTo(galaxies)) {
+        store = new ParticleStore(galaxies);
+      }
+      const current = store;
+      subdivideTimeStep(galaxies, config, (timeStep) => current.step({ ...config, timeStep }));
+    },
+  };
+};
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { Galaxy } from '../astro';
+import { Vec3 } from '../math';
+import { resolvePhysicsConfig } from './config';
+import {
+  circularVelocity,
+  createMassProfile,
+  enclosedMassFraction,
+  MASS_PROFILES,
+  MassProfile,
+  profileDensity,
+  profileForceFactor,
+  profilePotentialFactor,
+} from './profiles';
+
+const profiles = MASS_PROFILES.map((type) => createMassProfile(type));
+const extended = profiles.filter((profile) => profile.type !== 'point');
+
+describe('createMassProfile', () => {
+  it('rejects unknown profiles', () => {
+    expect(() => createMassProfile('isothermal' as MassProfile['type'])).toThrow(
+      'Unknown mass profile: isothermal',
+    );
+  });
+});
+
+describe('enclosedMassFraction', () => {
+  it.each(profiles)('reaches the whole mass far from the centre of a $type profile', (profile) => {
+    expect(enclosedMassFraction(profile, 1e6)).toBeCloseTo(1, 5);
+  });
+
+  it.each(extended)('grows from 0 at the centre of a $type profile', (profile) => {
+    expect(enclosedMassFraction(profile, 0)).toBe(0);
+    expect(enclosedMassFraction(profile, 0.1)).toBeLessThan(enclosedMassFraction(profile, 0.5));
+  });
+});
+
+describe('profileDensity', () => {
+  it.each(extended)('adds up to the enclosed mass of a $type profile', (profile) => {
+    // Integrate 4π r² ρ(r) from 0.05 to 1 with the midpoint rule
+    const steps = 2000;
+    const dr = 0.95 / steps;
+    let mass = 0;
+    for (let i = 0; i < steps; i++) {
+      const r = 0.05 + (i + 0.5) * dr;
+      mass += 4 * Math.PI * r * r * profileDensity(profile, r) * dr;
+    }
+    const expected = enclosedMassFraction(profile, 1) - enclosedMassFraction(profile, 0.05);
+    expect(mass).toBeCloseTo(expected, 5);
+  });
+});
+
+describe('profilePotentialFactor', () => {
+  it.each(profiles)('gives the force of a $type profile as its gradient', (profile) => {
+    for (const r of [0.2, 0.7, 1.5, 3]) {
+      const h = 1e-5;
+      const gradient =
+        (profilePotentialFactor(profile, r + h, 0, 'none') -
+          profilePotentialFactor(profile, r - h, 0, 'none')) /
+        (2 * h);
+      expect(-gradient).toBeCloseTo(profileForceFactor(profile, r * r, 0, 'none') * r, 6);
+    }
+  });
+});
+
+describe('circularVelocity', () => {
+  it('falls off like a Kepler orbit around a point mass, and stays flat in a logarithmic halo', () => {
+    const config = resolvePhysicsConfig({ softeningKernel: 'none' });
+    const point = new Galaxy(Vec3.zero(), Vec3.zero(), Vec3.zero(), 1000);
+    expect(circularVelocity(point, 1, config) / circularVelocity(point, 0.25, config)).toBeCloseTo(
+      0.5,
+    );
+
+    const halo = new Galaxy(Vec3.zero(), Vec3.zero(), Vec3.zero(), 1000);
+    halo.profile = createMassProfile('logarithmic', 0.1, 5);
+    const ratio = circularVelocity(halo, 1.5, config) / circularVelocity(halo, 0.75, config);
+    expect(ratio).toBeGreaterThan(0.98);
+    expect(ratio).toBeLessThan(1.02);
+  });
+});
@@ -0,0 +1,307 @@
+import { Galaxy } from '../astro';
+import { PhysicsConfig } from './config';
+import {
+  SofteningKernel,
+  softenedForceFactor,
+  softenedPotentialFactor,
+  softeningOf,
+} from './softening';
+
+/**
+ * Mass profiles: how a galaxy's mass is spread out around its centre.
+ *
+ * Treating a galaxy as a single point mass gives Keplerian rotation curves: stars further out
+ * orbit more slowly, with v = sqrt(G M / r). Real spiral galaxies don't do this. Their
+ * rotation curves stay roughly flat far beyond the visible disk, which is the classic
+ * evidence that they sit inside much larger haloes of dark matter.
+ *
+ * A spherical profile is described by its enclosed mass M(r), the mass within radius r.
+ * Only that mass pulls a star inwards (Newton's shell theorem), so the acceleration is
+ * a = G M(r) / r², and a circular orbit has speed v = sqrt(G M(r) / r).
+ *
+ * Every profile is scaled so that `galaxy.mass` is its total mass. The NFW and logarithmic
+ * profiles contain infinite mass if extended forever, so they are cut off at an outer
+ * radius, beyond which they behave like a point mass.
+ */
+
+/**
+ * The available mass profiles:
+ * - `point`: All the mass at the centre. The default, and the original behaviour.
+ * - `plummer`: A smooth ball with a constant density core, M(r) ∝ r³ / (r² + a²)^(3/2).
+ * - `hernquist`: A good match for elliptical galaxies and bulges, M(r) ∝ r² / (r + a)².
+ * - `nfw`: The Navarro-Frenk-White profile found in simulations of dark matter haloes,
+ *   M(r) ∝ ln(1 + r/a) - (r/a) / (1 + r/a).
+ * - `logarithmic`: A cored isothermal halo, M(r) ∝ r³ / (r² + a²), which gives a flat
+ *   rotation curve well outside the core radius a.
+ */
+export type MassProfile =
+  | { type: 'point' }
+  | {
+      type: 'plummer' | 'hernquist';
+      // The scale radius a, inside which the density levels off.
+      scaleRadius: number;
+    }
+  | {
+      type: 'nfw' | 'logarithmic';
+      // The scale radius a (the core radius of the logarithmic halo).
+      scaleRadius: number;
+      // The radius containing the galaxy's mass. Beyond it the profile acts as a point mass.
+      outerRadius: number;
+    };
+
+/**
+ * The names of the available mass profiles.
+ */
+export const MASS_PROFILES: readonly MassProfile['type'][] = [
+  'point',
+  'plummer',
+  'hernquist',
+  'nfw',
+  'logarithmic',
+];
+
+/**
+ * Creates a mass profile of the given type. The default sizes suit the standard galaxies,
+ * which have a disk of stars between 0.5 and 1.5 across: the extended profiles have a core a
+ * fraction of the size of the disk, and a halo that reaches well beyond it.
+ * @param type - The type of profile.
+ * @param scaleRadius - The scale radius, for the profiles that have one.
+ * @param outerRadius - The outer radius, for the profiles that have one.
+ * @returns The profile.
+ * @throws Error if there is no profile of that type
+ */
+export const createMassProfile = (
+  type: MassProfile['type'],
+  scaleRadius: number = 0.3,
+  outerRadius: number = 2,
+): MassProfile => {
+  switch (type) {
+    case 'plummer':
+    case 'hernquist':
+      return { type, scaleRadius };
+    case 'nfw':
+    case 'logarithmic':
+      return { type, scaleRadius, outerRadius };
+    case 'point':
+      return { type };
+    default:
+      throw new Error(
+        `Unknown mass profile: ${type}. Expected one of: ${MASS_PROFILES.join(', ')}`,
+      );
+  }
+};
+
+/**
+ * The mass of an NFW profile within x scale radii, up to a constant factor.
+ */
+const nfwMass = (x: number) => Math.log(1 + x) - x / (1 + x);
+
+/**
+ * Calculates the fraction of a galaxy's mass within a distance of its centre.
+ * @param profile - The mass profile. Defaults to a point mass.
+ * @param r - The distance from the centre.
+ * @returns M(r) / M, between 0 and 1.
+ */
+export const enclosedMassFraction = (profile: MassProfile | undefined, r: number) => {
+  if (!profile || profile.type === 'point') return 1;
+  const a = profile.scaleRadius;
+  switch (profile.type) {
+    case 'plummer':
+      return (r * r * r) / (r * r + a * a) ** 1.5;
+    case 'hernquist':
+      return (r * r) / (r + a) ** 2;
+    case 'nfw':
+      if (r >= profile.outerRadius) return 1;
+      return nfwMass(r / a) / nfwMass(profile.outerRadius / a);
+    case 'logarithmic': {
+      const R = profile.outerRadius;
+      if (r >= R) return 1;
+      return ((r * r * r) / (r * r + a * a)) * ((R * R + a * a) / (R * R * R));
+    }
+  }
+};
+
+/**
+ * Calculates the density of a galaxy's mass at a distance from its centre, as a fraction of
+ * its total mass: ρ(r) / M = (dM(r)/dr) / (4π r² M).
+ * @param profile - The mass profile. Defaults to a point mass.
+ * @param r - The distance from the centre.
+ * @returns The density per unit mass. A point mass has no density away from its centre, and
+ * the Hernquist and NFW profiles have infinite density at the centre.
+ */
+export const profileDensity = (profile: MassProfile | undefined, r: number) => {
+  if (!profile || profile.type === 'point') return 0;
+  const a = profile.scaleRadius;
+  switch (profile.type) {
+    case 'plummer':
+      return (3 * a * a) / (4 * Math.PI * (r * r + a * a) ** 2.5);
+    case 'hernquist':
+      return a / (2 * Math.PI * r * (r + a) ** 3);
+    case 'nfw': {
+      if (r >= profile.outerRadius) return 0;
+      const x = r / a;
+      return 1 / (4 * Math.PI * a ** 3 * nfwMass(profile.outerRadius / a) * x * (1 + x) ** 2);
+    }
+    case 'logarithmic': {
+      const R = profile.outerRadius;
+      if (r >= R) return 0;
+      return (
+        ((r * r + 3 * a * a) / (4 * Math.PI * (r * r + a * a) ** 2)) *
+        ((R * R + a * a) / (R * R * R))
+      );
+    }
+  }
+};
+
+/**
+ * Calculates the equivalent of 1/r³ for a mass profile, so that the gravitational
+ * acceleration towards a galaxy of mass M is a = G * M * factor * r_vec.
+ *
+ * The point mass uses the configured softening kernel. The extended profiles are already
+ * smooth on the scale of their scale radius, and are softened like a Plummer sphere, by
+ * evaluating them at sqrt(r² + ε²).
+ * @param profile - The mass profile. Defaults to a point mass.
+ * @param distSq - The squared distance to the galaxy's centre.
+ * @param softeningLength - The softening length ε.
+ * @param kernel - The softening kernel to use.
+ * @returns The acceleration factor, or 0 at the centre of a profile with an infinite force.
+ */
+export const profileForceFactor = (
+  profile: MassProfile | undefined,
+  distSq: number,
+  softeningLength: number,
+  kernel: SofteningKernel,
+): number => {
+  if (!profile || profile.type === 'point') {
+    return softenedForceFactor(distSq, softeningLength, kernel);
+  }
+
+  const softenedSq = kernel === 'none' ? distSq : distSq + Math.max(softeningLength, 0) ** 2;
+  const r = Math.sqrt(softenedSq);
+  const a = profile.scaleRadius;
+  switch (profile.type) {
+    case 'plummer':
+      // M(r) / r³ stays finite at the centre, so we can calculate it directly
+      return 1 / (softenedSq + a * a) ** 1.5;
+    case 'logarithmic':
+      if (r < profile.outerRadius) {
+        const R = profile.outerRadius;
+        return (1 / (softenedSq + a * a)) * ((R * R + a * a) / (R * R * R));
+      }
+      return 1 / (r * softenedSq);
+    default:
+      // Avoid division by zero exactly at the centre
+      if (r === 0) return 0;
+      return enclosedMassFraction(profile, r) / (r * softenedSq);
+  }
+};
+
+/**
+ * Calculates the equivalent of 1/r for a mass profile, so that the gravitational potential
+ * of a galaxy of mass M is Φ = -G * M * factor. This is the potential that matches
+ * `profileForceFactor`.
+ * @param profile - The mass profile. Defaults to a point mass.
+ * @param dist - The distance to the galaxy's centre.
+ * @param softeningLength - The softening length ε.
+ * @param kernel - The softening kernel to use.
+ * @returns The potential factor.
+ */
+export const profilePotentialFactor = (
+  profile: MassProfile | undefined,
+  dist: number,
+  softeningLength: number,
+  kernel: SofteningKernel,
+): number => {
+  if (!profile || profile.type === 'point') {
+    return softenedPotentialFactor(dist, softeningLength, kernel);
+  }
+
+  const r = kernel === 'none' ? dist : Math.sqrt(dist ** 2 + Math.max(softeningLength, 0) ** 2);
+  const a = profile.scaleRadius;
+  switch (profile.type) {
+    case 'plummer':
+      return 1 / Math.sqrt(r * r + a * a);
+    case 'hernquist':
+      return 1 / (r + a);
+    case 'nfw': {
+      // Inside the outer radius the NFW potential is ln(1 + r/a) / r, shifted to join the
+      // point mass potential 1/R at the outer radius R
+      const R = profile.outerRadius;
+      if (r >= R) return 1 / r;
+      const inner = r === 0 ? 1 / a : Math.log(1 + r / a) / r;
+      return (inner - Math.log(1 + R / a) / R) / nfwMass(R / a) + 1 / R;
+    }
+    case 'logarithmic': {
+      // Inside the outer radius the potential is logarithmic, hence the name
+      const R = profile.outerRadius;
+      if (r >= R) return 1 / r;
+      const scale = (R * R + a * a) / (R * R * R);
+      return 1 / R - (scale / 2) * Math.log((r * r + a * a) / (R * R + a * a));
+    }
+  }
+};
+
+/**
+ * Calculates the force factor between two galaxies.
+ *
+ * Each galaxy would feel the other's profile, which for different profiles would make the
+ * forces unequal and break conservation of momentum. Instead both feel the average of the
+ * two, using the larger of their softening lengths.
+ * @param a - The first galaxy.
+ * @param b - The second galaxy.
+ * @param distSq - The squared distance between them.
+ * @param config - The physics parameters to use.
+ * @returns The force factor, as for `profileForceFactor`.
+ */
+export const galaxyPairForceFactor = (
+  a: Galaxy,
+  b: Galaxy,
+  distSq: number,
+  config: PhysicsConfig,
+) => {
+  const softening = Math.max(softeningOf(a, config), softeningOf(b, config));
+  return (
+    (profileForceFactor(a.profile, distSq, softening, config.softeningKernel) +
+      profileForceFactor(b.profile, distSq, softening, config.softeningKernel)) /
+    2
+  );
+};
+
+/**
+ * Calculates the potential factor between two galaxies, matching `galaxyPairForceFactor`.
+ * @param a - The first galaxy.
+ * @param b - The second galaxy.
+ * @param dist - The distance between them.
+ * @param config - The physics parameters to use.
+ * @returns The potential factor, as for `profilePotentialFactor`.
+ */
+export const galaxyPairPotentialFactor = (
+  a: Galaxy,
+  b: Galaxy,
+  dist: number,
+  config: PhysicsConfig,
+) => {
+  const softening = Math.max(softeningOf(a, config), softeningOf(b, config));
+  return (
+    (profilePotentialFactor(a.profile, dist, softening, config.softeningKernel) +
+      profilePotentialFactor(b.profile, dist, softening, config.softeningKernel)) /
+    2
+  );
+};
+
+/**
+ * Calculates the speed of a circular orbit around a galaxy.
+ * @param galaxy - The galaxy.
+ * @param r - The radius of the orbit.
+ * @param config - The physics parameters to use.
+ * @returns The orbital speed, v = sqrt(G M(r) / r).
+ */
+export const circularVelocity = (galaxy: Galaxy, r: number, config: PhysicsConfig) => {
+  const factor = profileForceFactor(
+    galaxy.profile,
+    r * r,
+    softeningOf(galaxy, config),
+    config.softeningKernel,
+  );
+  return Math.sqrt(config.gravitationalConstant * galaxy.mass * factor * r * r);
+};
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { Galaxy, Star } from '../astro';
+import { Vec3 } from '../math';
+import { createRecorder } from './recorder';
+import { updateGalaxies } from './simple';
+
+const createGalaxies = () => {
+  const first = new Galaxy(new Vec3(0, 0.3, 0), new Vec3(-1, 0, 0), Vec3.zero(), 1000);
+  first.stars.push(new Star(new Vec3(-1.5, 0, 0), new Vec3(0, 1, 0)));
+  const second = new Galaxy(new Vec3(0, -0.3, 0), new Vec3(1, 0, 0), Vec3.zero(), 1000);
+  second.data = { name: 'second' };
+  return [first, second];
+};
+
+describe('createRecorder', () => {
+  it('restores each frame as it was recorded', () => {
+    const recorder = createRecorder({ interval: 2 });
+    const galaxies = createGalaxies();
+    const positions: number[] = [];
+    for (let step = 0; step <= 10; step++) {
+      if (recorder.record(galaxies, {}, step)) positions.push(galaxies[0].stars[0].pos.x);
+      updateGalaxies(galaxies);
+    }
+
+    expect(recorder.frames.map((frame) => frame.step)).toEqual([0, 2, 4, 6, 8, 10]);
+    const restored = recorder.restore(recorder.frameIndex(5));
+    expect(restored.step).toBe(4);
+    expect(restored.galaxies[0].stars[0].pos.x).toBe(positions[2]);
+    expect(restored.galaxies[1].data).toEqual({ name: 'second' });
+    // The restored galaxies are new objects
+    restored.galaxies[1].data.name = 'changed';
+    expect(recorder.restore(2).galaxies[1].data).toEqual({ name: 'second' });
+  });
+
+  it('discards the frames after a step recorded out of order', () => {
+    const recorder = createRecorder();
+    const galaxies = createGalaxies();
+    for (let step = 0; step < 5; step++) recorder.record(galaxies, {}, step);
+    recorder.record(galaxies, {}, 2);
+    expect(recorder.frames.map((frame) => frame.step)).toEqual([0, 1, 2]);
+  });
+});
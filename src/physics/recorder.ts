@@ -0,0 +1,183 @@
+import { Galaxy, Star } from '../astro';
+import { PhysicsConfig } from './config';
+import { createSnapshot, RestoredSnapshot, restoreTrustedSnapshot, Snapshot } from './snapshot';
+import { stateLength, writeState, readState } from './worker-protocol';
+
+/**
+ * Recording a simulation so that it can be played back.
+ *
+ * Interesting moments, like a close pass or a tail forming, are over in a few seconds. A
+ * recorder keeps a rolling history of frames: the state of the simulation every few steps.
+ * When it is full, the oldest frames are dropped to make room for new ones.
+ *
+ * Saving a full snapshot every frame would create thousands of objects each time, so a frame
+ * only holds the position and velocity of every body in a `Float64Array` (see
+ * `writeState`). Everything else, such as the masses, profiles and `data` of the galaxies and
+ * stars, is saved in a snapshot that is shared by every frame until the set of galaxies or
+ * stars changes, for example after a merger. Changes to `data` alone don't count, so a
+ * restored frame has the `data` from when its snapshot was taken.
+ */
+
+/**
+ * Options for a recorder.
+ */
+export type RecorderOptions = {
+  // The smallest number of steps between frames. Defaults to 1, recording every step.
+  interval?: number;
+  // The largest number of frames kept. Defaults to 300.
+  capacity?: number;
+};
+
+/**
+ * A recorded moment in a simulation.
+ */
+export type RecordedFrame = {
+  // The step the frame was recorded at.
+  step: number;
+  // The position and velocity of every body, as written by `writeState`.
+  state: Float64Array;
+  // Everything else about the galaxies, shared with other frames.
+  layout: Snapshot;
+};
+
+/**
+ * Creates a recorder.
+ * @param options - The recorder options.
+ * @returns The recorder.
+ * @throws Error if the interval or capacity is less than 1
+ */
+export const createRecorder = (options: RecorderOptions = {}) => {
+  const { interval = 1, capacity = 300 } = options;
+  if (!(interval >= 1)) {
+    throw new Error('The recording interval must be at least 1');
+  }
+  if (!(capacity >= 1)) {
+    throw new Error('The recording capacity must be at least 1');
+  }
+
+  const frames: RecordedFrame[] = [];
+
+  // The snapshot used by the latest frames, and what the galaxies looked like when it was
+  // taken
+  let layout: Snapshot | null = null;
+  let layoutGalaxies: Galaxy[] = [];
+  let layoutStars: Star[][] = [];
+  let layoutStarCounts: number[] = [];
+  let layoutMasses: number[] = [];
+
+  const hasLayout = (galaxies: Galaxy[]) =>
+    layout !== null &&
+    galaxies.length === layoutGalaxies.length &&
+    galaxies.every(
+      (galaxy, i) =>
+        galaxy === layoutGalaxies[i] &&
+        galaxy.stars === layoutStars[i] &&
+        galaxy.stars.length === layoutStarCounts[i] &&
+        galaxy.mass === layoutMasses[i],
+    );
+
+  const takeLayout = (galaxies: Galaxy[], config: Partial<PhysicsConfig>, step: number) => {
+    layout = createSnapshot(galaxies, config, step);
+    layoutGalaxies = [...galaxies];
+    layoutStars = galaxies.map((galaxy) => galaxy.stars);
+    layoutStarCounts = galaxies.map((galaxy) => galaxy.stars.length);
+    layoutMasses = galaxies.map((galaxy) => galaxy.mass);
+    return layout;
+  };
+
+  const checkIndex = (index: number) => {
+    if (!Number.isInteger(index) || index < 0 || index >= frames.length) {
+      throw new Error(`There is no recorded frame ${index}`);
+    }
+  };
+
+  return {
+    /**
+     * The recorded frames, oldest first.
+     */
+    get frames(): readonly RecordedFrame[] {
+      return frames;
+    },
+
+    /**
+     * Records a frame, if at least `interval` steps have passed since the latest frame.
+     * Steps must be recorded in order: recording a step at or before the latest frame
+     * discards the frames from that step on, and always records.
+     * @param galaxies - The galaxies to record.
+     * @param config - The physics parameters the simulation is running with.
+     * @param step - The number of steps the simulation has taken.
+     * @returns True if a frame was recorded.
+     */
+    record(galaxies: Galaxy[], config: Partial<PhysicsConfig>, step: number) {
+      const latest = frames[frames.length - 1];
+      if (latest && step > latest.step && step - latest.step < interval) return false;
+      while (frames.length > 0 && frames[frames.length - 1].step >= step) {
+        frames.pop();
+      }
+
+      const state = new Float64Array(stateLength(galaxies));
+      writeState(galaxies, state);
+      frames.push({
+        step,
+        state,
+        layout: hasLayout(galaxies) ? layout! : takeLayout(galaxies, config, step),
+      });
+      if (frames.length > capacity) {
+        frames.shift();
+      }
+      return true;
+    },
+
+    /**
+     * Finds the latest frame recorded at or before a step.
+     * @param step - The step to look for.
+     * @returns The index of the frame, or -1 if every frame is later than the step.
+     */
+    frameIndex(step: number) {
+      let index = -1;
+      for (let i = 0; i < frames.length && frames[i].step <= step; i++) {
+        index = i;
+      }
+      return index;
+    },
+
+    /**
+     * Creates the galaxies recorded in a frame. They are new objects, so they can be used to
+     * start a new simulation without changing the recording.
+     * @param index - The index of the frame.
+     * @returns The galaxies, the physics config and the step of the frame.
+     * @throws Error if there is no such frame
+     */
+    restore(index: number): RestoredSnapshot {
+      checkIndex(index);
+      const frame = frames[index];
+      // The recorder made the layout itself, so there's no need to check it
+      const restored = restoreTrustedSnapshot(frame.layout);
+      readState(restored.galaxies, frame.state);
+      return { ...restored, step: frame.step };
+    },
+
+    /**
+     * Discards every frame after a frame, for example when a new simulation is started
+     * from it.
+     * @param index - The index of the last frame to keep.
+     */
+    truncate(index: number) {
+      frames.length = Math.max(0, Math.min(frames.length, index + 1));
+    },
+
+    /**
+     * Discards every frame.
+     */
+    clear() {
+      frames.length = 0;
+      layout = null;
+      layoutGalaxies = [];
+      layoutStars = [];
+      layoutStarCounts = [];
+      layoutMasses = [];
+    },
+  };
+};
+
+export type Recorder = ReturnType<typeof createRecorder>;
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { Galaxy, Star } from '../astro';
+import { Vec3 } from '../math';
+import { flipVelocities, measureDeviation, testReversibility } from './reversibility';
+import { updateGalaxies } from './simple';
+import { createSnapshot } from './snapshot';
+
+const createGalaxies = () => {
+  const first = new Galaxy(new Vec3(0, 0.3, 0), new Vec3(-1, 0, 0), Vec3.zero(), 1000);
+  first.stars.push(
+    new Star(new Vec3(-1.5, 0, 0), new Vec3(0, 1, 0)),
+    new Star(new Vec3(-1, 0.4, 0.1), new Vec3(-1, 0, 0)),
+  );
+  const second = new Galaxy(new Vec3(0, -0.3, 0), new Vec3(1, 0, 0), Vec3.zero(), 1000);
+  second.stars.push(new Star(new Vec3(1.3, 0, 0), new Vec3(0, -1, 0)));
+  return [first, second];
+};
+
+describe('testReversibility', () => {
+  it.each(['leapfrog', 'yoshida'] as const)('returns to the start with %s', (integrator) => {
+    const deviation = testReversibility(createGalaxies(), 200, { integrator, timeStep: 0.01 });
+    // Only rounding errors remain, although close passes make them grow
+    expect(deviation.maxPosition).toBeLessThan(1e-6);
+    expect(deviation.maxVelocity).toBeLessThan(1e-6);
+  });
+
+  it.each(['euler', 'symplectic-euler', 'rk4'] as const)(
+    "doesn't return to the start with %s",
+    (integrator) => {
+      const deviation = testReversibility(createGalaxies(), 200, { integrator, timeStep: 0.01 });
+      expect(deviation.maxPosition).toBeGreaterThan(1e-3);
+    },
+  );
+
+  it("doesn't change the galaxies", () => {
+    const galaxies = createGalaxies();
+    const before = createSnapshot(galaxies);
+    testReversibility(galaxies, 10);
+    expect(measureDeviation(galaxies, before).maxPosition).toBe(0);
+  });
+});
+
+describe('flipVelocities', () => {
+  it('retraces the path when run forwards again', () => {
+    const galaxies = createGalaxies();
+    const start = createSnapshot(galaxies);
+    const config = { integrator: 'leapfrog' as const, timeStep: 0.01 };
+    for (let i = 0; i < 100; i++) updateGalaxies(galaxies, config);
+    flipVelocities(galaxies);
+    for (let i = 0; i < 100; i++) updateGalaxies(galaxies, config);
+    flipVelocities(galaxies);
+
+    const deviation = measureDeviation(galaxies, start);
+    expect(deviation.rmsPosition).toBeLessThan(1e-9);
+    expect(deviation.rmsVelocity).toBeLessThan(1e-9);
+  });
+});
+
+describe('measureDeviation', () => {
+  it('measures the largest and rms differences', () => {
+    const galaxies = createGalaxies();
+    const snapshot = createSnapshot(galaxies);
+    galaxies[1].stars[0].pos = galaxies[1].stars[0].pos.add(new Vec3(0, 0, 5));
+    const deviation = measureDeviation(galaxies, snapshot);
+    expect(deviation.maxPosition).toBeCloseTo(5);
+    expect(deviation.rmsPosition).toBeCloseTo(Math.sqrt(25 / 5));
+    expect(deviation.maxVelocity).toBe(0);
+  });
+
+  it('rejects a snapshot with different bodies', () => {
+    const snapshot = createSnapshot(createGalaxies());
+    const galaxies = createGalaxies();
+    galaxies[0].stars.pop();
+    expect(() => measureDeviation(galaxies, snapshot)).toThrow('the number of bodies differs');
+  });
+});
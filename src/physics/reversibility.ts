@@ -0,0 +1,118 @@
+import { Galaxy } from '../astro';
+import { PhysicsConfig, resolvePhysicsConfig } from './config';
+import { Simulator, updateGalaxies } from './simple';
+import { createSnapshot, restoreSnapshot, Snapshot } from './snapshot';
+import { allBodies } from './util';
+
+/**
+ * Running the simulation backwards.
+ *
+ * Newton's laws don't care which way time runs: film the galaxies, play the film backwards,
+ * and what you see is also a valid solution. There are two ways to try this:
+ *  - use a negative `timeStep`, so that every step goes back in time
+ *  - flip every velocity and carry on forwards, which retraces the path (with the velocities
+ *    pointing the wrong way, so flip them again at the end)
+ *
+ * A numerical integrator only keeps this symmetry if each step is undone exactly by a step
+ * of the same size backwards. Leapfrog and Yoshida are built that way, so after running
+ * forwards and then backwards they return to where they started, as closely as rounding
+ * errors allow. Euler, Symplectic Euler and RK4 are not, and end up somewhere slightly different.
+ * Adaptive time stepping and mergers also break the symmetry, because the step sizes and
+ * mergers depend on which way the simulation is going.
+ */
+
+/**
+ * How far the state of the simulation is from an earlier snapshot of it.
+ */
+export type StateDeviation = {
+  // The largest distance between a body and where it was in the snapshot.
+  maxPosition: number;
+  // The root mean square distance between the bodies and where they were.
+  rmsPosition: number;
+  // The largest difference between a body's velocity and its velocity in the snapshot.
+  maxVelocity: number;
+  // The root mean square difference in velocity.
+  rmsVelocity: number;
+};
+
+/**
+ * Reverses the velocity of every galaxy and star.
+ * @param galaxies - The galaxies to update.
+ */
+export const flipVelocities = (galaxies: Galaxy[]) => {
+  for (const body of allBodies(galaxies)) {
+    body.vel = body.vel.mul(-1);
+  }
+};
+
+/**
+ * Measures how far the galaxies have moved from a snapshot, for example after running
+ * forwards and then backwards to the same step.
+ * @param galaxies - The galaxies now.
+ * @param snapshot - The snapshot to compare them with.
+ * @returns The differences in position and velocity.
+ * @throws Error if the galaxies don't have the same number of galaxies and stars as the
+ * snapshot
+ */
+export const measureDeviation = (galaxies: Galaxy[], snapshot: Snapshot): StateDeviation => {
+  if (
+    galaxies.length !== snapshot.galaxies.length ||
+    galaxies.some((galaxy, i) => galaxy.stars.length !== snapshot.galaxies[i].stars.length)
+  ) {
+    throw new Error('The galaxies do not match the snapshot: the number of bodies differs');
+  }
+  // `allBodies` lists the galaxies first and then the stars, so put the snapshot in the same
+  // order
+  const bodies = allBodies(galaxies);
+  const savedBodies = [
+    ...snapshot.galaxies,
+    ...snapshot.galaxies.flatMap((galaxy) => galaxy.stars),
+  ];
+
+  const deviation = { maxPosition: 0, rmsPosition: 0, maxVelocity: 0, rmsVelocity: 0 };
+  bodies.forEach((body, i) => {
+    const [px, py, pz] = savedBodies[i].pos;
+    const [vx, vy, vz] = savedBodies[i].vel;
+    const position = Math.hypot(body.pos.x - px, body.pos.y - py, body.pos.z - pz);
+    const velocity = Math.hypot(body.vel.x - vx, body.vel.y - vy, body.vel.z - vz);
+    deviation.maxPosition = Math.max(deviation.maxPosition, position);
+    deviation.maxVelocity = Math.max(deviation.maxVelocity, velocity);
+    deviation.rmsPosition += position * position;
+    deviation.rmsVelocity += velocity * velocity;
+  });
+  const count = Math.max(bodies.length, 1);
+  deviation.rmsPosition = Math.sqrt(deviation.rmsPosition / count);
+  deviation.rmsVelocity = Math.sqrt(deviation.rmsVelocity / count);
+  return deviation;
+};
+
+/**
+ * Tests how reversible the simulation is: runs a copy of the galaxies forwards for a number
+ * of steps, then backwards with a negative time step for the same number of steps, and
+ * measures how far it ends up from where it started. The galaxies themselves aren't changed.
+ * @param galaxies - The galaxies to start from.
+ * @param steps - The number of steps to run each way.
+ * @param config - The physics parameters to use.
+ * @param simulator - The simulator that advances the galaxies. Defaults to the standard one.
+ * @returns How far the final state is from the starting state.
+ */
+export const testReversibility = (
+  galaxies: Galaxy[],
+  steps: number,
+  config: Partial<PhysicsConfig> = {},
+  simulator: Simulator = { updateGalaxies },
+) => {
+  const resolved = resolvePhysicsConfig(config);
+  const start = createSnapshot(galaxies, resolved);
+  const copy = restoreSnapshot(start).galaxies;
+
+  for (let i = 0; i < steps; i++) {
+    simulator.updateGalaxies(copy, resolved);
+  }
+  const backwards = { ...resolved, timeStep: -resolved.timeStep };
+  for (let i = 0; i < steps; i++) {
+    simulator.updateGalaxies(copy, backwards);
+  }
+
+  return measureDeviation(copy, start);
+};
@@ -0,0 +1,284 @@
+import { Galaxy } from '../astro';
+import { RandomSource, Vec3 } from '../math';
+import { PhysicsConfig, resolvePhysicsConfig } from './config';
+import { GasOptions } from './gas';
+import { Morphology, MorphologyName, resolveMorphology } from './morphology';
+import { MassProfile } from './profiles';
+import { createRandomGalaxy } from './simple';
+
+/**
+ * Classic galaxy encounters.
+ *
+ * In 1972 Alar and Juri Toomre showed that the long tails and bridges seen in some pairs of
+ * galaxies are made by gravity alone, during a close pass between two disk galaxies. Their
+ * simulations were simple: two point masses on a parabolic orbit, each surrounded by a disk
+ * of massless test stars - just like this simulation.
+ *
+ * A scenario places two galaxies on a chosen orbit instead of at random. The two cores
+ * follow a Keplerian orbit around their common centre of mass, described by the distance of
+ * closest approach (pericentre) and the eccentricity (0 is a circle, below 1 an ellipse, 1 a
+ * parabola and above 1 a hyperbola). Each disk is tilted relative to the orbit using the
+ * Toomres' angles:
+ *  - the inclination i between the disk and the orbital plane: 0° is a prograde disk,
+ *    spinning the same way as the orbit, and 180° is retrograde
+ *  - the argument of pericentre ω, measured in the orbital plane from the line where the
+ *    disk crosses it to the direction of pericentre
+ *
+ * The orbital plane is the plane of the screen, and pericentre is along the x axis.
+ */
+
+/**
+ * One of the galaxies in a scenario.
+ */
+export type ScenarioGalaxy = {
+  // The radius of the galaxy's disk.
+  radius?: number;
+  // The number of stars in the galaxy.
+  starCount?: number;
+  // The angle between the disk and the orbital plane, in degrees.
+  inclination?: number;
+  // The argument of pericentre, in degrees.
+  argument?: number;
+  // Whether the disk spins the other way.
+  retrograde?: boolean;
+  // How the galaxy's stars are arranged. Defaults to the original disk.
+  morphology?: Morphology | MorphologyName;
+  // How the galaxy's mass is spread out. Defaults to a point mass.
+  profile?: MassProfile;
+  // The softening length of the galaxy's central mass.
+  softening?: number;
+  // The galaxy's gas, if it has any.
+  gas?: GasOptions;
+};
+
+/**
+ * An encounter between two galaxies.
+ */
+export type Scenario = {
+  // The mass of the primary galaxy.
+  mass?: number;
+  // The mass of the secondary galaxy as a fraction of the primary's.
+  massRatio?: number;
+  // The distance between the cores at closest approach.
+  pericentre: number;
+  // The eccentricity of the orbit.
+  eccentricity: number;
+  // The distance between the cores at the start. Defaults to 4. Limited to the largest
+  // distance the orbit reaches, for elliptical orbits.
+  separation?: number;
+  primary?: ScenarioGalaxy;
+  secondary?: ScenarioGalaxy;
+};
+
+/**
+ * The names of the built-in scenarios.
+ */
+export type ScenarioName = 'antennae' | 'mice' | 'whirlpool' | 'cartwheel';
+
+/**
+ * Built-in scenarios based on famous interacting galaxies.
+ */
+export const SCENARIOS: Readonly<Record<ScenarioName, Scenario>> = Object.freeze({
+  // NGC 4038/4039: two equal disks on a bound orbit, each throwing out a long curved tail.
+  antennae: {
+    massRatio: 1,
+    pericentre: 1.5,
+    eccentricity: 0.5,
+    separation: 3,
+    primary: { inclination: 60, argument: -30 },
+    secondary: { inclination: 60, argument: -30 },
+  },
+  // NGC 4676: two equal disks on a parabolic orbit, one seen almost edge-on, with long
+  // straight tails.
+  mice: {
+    massRatio: 1,
+    pericentre: 1.5,
+    eccentricity: 1,
+    primary: { inclination: 25, argument: -30 },
+    secondary: { inclination: 75, argument: 30 },
+  },
+  // M51: a small companion swinging past a large prograde disk, pulling out a bridge of
+  // stars towards itself and a tail on the far side.
+  whirlpool: {
+    massRatio: 0.25,
+    pericentre: 1.2,
+    eccentricity: 1,
+    separation: 3,
+    primary: { inclination: 0, argument: 0, morphology: 'spiral' },
+    secondary: { radius: 0.4, starCount: 250, inclination: 0, argument: 0 },
+  },
+  // The Cartwheel galaxy: a small companion plunging through the middle of a large disk,
+  // perpendicular to it, which sends a ring of stars rippling outwards.
+  cartwheel: {
+    massRatio: 0.25,
+    pericentre: 0.1,
+    eccentricity: 1,
+    primary: { inclination: 90, argument: 0 },
+    secondary: { radius: 0.3, starCount: 200, morphology: 'elliptical' },
+  },
+});
+
+/**
+ * Looks up a scenario by name, or returns the given scenario unchanged.
+ * @param scenario - The scenario, or the name of a built-in one.
+ * @returns The scenario.
+ * @throws Error if the name isn't a built-in scenario
+ */
+export const resolveScenario = (scenario: Scenario | ScenarioName): Scenario => {
+  if (typeof scenario !== 'string') return scenario;
+  // Check the name is one of ours, and not something inherited like "toString"
+  if (!Object.prototype.hasOwnProperty.call(SCENARIOS, scenario)) {
+    throw new Error(`Unknown scenario: ${scenario}`);
+  }
+  return SCENARIOS[scenario];
+};
+
+/**
+ * Calculates the relative position and velocity of two bodies on a Keplerian orbit.
+ *
+ * The orbit equation r = p / (1 + e cos f) gives the distance r at each angle f from
+ * pericentre, where p = q (1 + e) for a pericentre distance q. The bodies start at the
+ * requested separation on the way in, so f is negative.
+ * @param totalMass - The combined mass of the bodies.
+ * @param pericentre - The distance of closest approach.
+ * @param eccentricity - The eccentricity of the orbit.
+ * @param separation - The distance between the bodies at the start.
+ * @param G - The gravitational constant.
+ * @returns The position and velocity of the second body relative to the first.
+ */
+export const keplerOrbit = (
+  totalMass: number,
+  pericentre: number,
+  eccentricity: number,
+  separation: number,
+  G: number,
+) => {
+  const p = pericentre * (1 + eccentricity);
+  // Start at pericentre if the orbit never reaches the separation (for example a circle)
+  const cosF =
+    eccentricity > 0 ? Math.max(-1, Math.min(1, (p / separation - 1) / eccentricity)) : 1;
+  const f = -Math.acos(cosF);
+  const r = p / (1 + eccentricity * Math.cos(f));
+  const speed = Math.sqrt((G * totalMass) / p);
+  return {
+    pos: new Vec3(r * Math.cos(f), r * Math.sin(f), 0),
+    vel: new Vec3(-speed * Math.sin(f), speed * (eccentricity + Math.cos(f)), 0),
+  };
+};
+
+/**
+ * Works out the direction a disk faces from its Toomre angles. The disk starts flat in the
+ * orbital plane, and is then tilted by the inclination about the line of nodes, which lies
+ * at an angle -ω from pericentre.
+ */
+const toomreNormal = (inclination: number, argument: number) => {
+  const i = (inclination * Math.PI) / 180;
+  const node = (-argument * Math.PI) / 180;
+  // Rotating the z axis by i about the axis (cos node, sin node, 0)
+  return new Vec3(Math.sin(node) * Math.sin(i), -Math.cos(node) * Math.sin(i), Math.cos(i));
+};
+
+/**
+ * Moves a galaxy and all of its stars.
+ */
+const placeGalaxy = (galaxy: Galaxy, pos: Vec3, vel: Vec3) => {
+  const offset = pos.sub(galaxy.pos);
+  const velocityChange = vel.sub(galaxy.vel);
+  galaxy.pos = pos;
+  galaxy.vel = vel;
+  for (const star of galaxy.stars) {
+    star.pos = star.pos.add(offset);
+    star.vel = star.vel.add(velocityChange);
+  }
+};
+
+/**
+ * Creates one of the galaxies in a scenario, at the origin and at rest.
+ */
+const createScenarioGalaxy = (
+  spec: ScenarioGalaxy,
+  mass: number,
+  config: PhysicsConfig,
+  random: RandomSource,
+) => {
+  const { radius = 1, starCount = 1000, inclination = 0, argument = 0 } = spec;
+  const morphology = spec.morphology === undefined ? {} : resolveMorphology(spec.morphology);
+
+  // Convert the disk's direction into the inclination and position angle on the screen
+  // that `createRandomGalaxy` expects (see `diskNormal`)
+  const normal = toomreNormal(inclination, argument);
+  const galaxy = createRandomGalaxy(
+    {
+      minStarCount: starCount,
+      minGalaxyRadius: radius,
+      mass,
+      softening: spec.softening,
+      profile: spec.profile,
+      gas: spec.gas,
+      morphology: {
+        ...morphology,
+        retrograde: spec.retrograde ?? morphology.retrograde,
+        inclination: (Math.acos(normal.z) * 180) / Math.PI,
+        positionAngle: (Math.atan2(normal.x, -normal.y) * 180) / Math.PI,
+      },
+      random,
+    },
+    config,
+  );
+  placeGalaxy(galaxy, Vec3.zero(), Vec3.zero());
+  return galaxy;
+};
+
+/**
+ * Creates the galaxies for a scenario. The centre of mass of the pair is at the origin, and
+ * at rest.
+ * @param scenario - The scenario, or the name of a built-in one.
+ * @param config - The physics parameters the galaxies will be simulated with.
+ * @param random - The source of random numbers used to place the stars.
+ * @returns The primary and secondary galaxies.
+ */
+export const createScenario = (
+  scenario: Scenario | ScenarioName,
+  config: Partial<PhysicsConfig> = {},
+  random: RandomSource = Math.random,
+): Galaxy[] => {
+  const resolved = resolvePhysicsConfig(config);
+  const {
+    mass = 1000,
+    massRatio = 1,
+    pericentre,
+    eccentricity,
+    separation = 4,
+    primary = {},
+    secondary = {},
+  } = resolveScenario(scenario);
+
+  const primaryMass = mass;
+  const secondaryMass = mass * massRatio;
+  const totalMass = primaryMass + secondaryMass;
+
+  const first = createScenarioGalaxy(primary, primaryMass, resolved, random);
+  const second = createScenarioGalaxy(secondary, secondaryMass, resolved, random);
+
+  // Split the relative orbit between the two galaxies so that their centre of mass stays
+  // at the origin
+  const orbit = keplerOrbit(
+    totalMass,
+    pericentre,
+    eccentricity,
+    separation,
+    resolved.gravitationalConstant,
+  );
+  placeGalaxy(
+    first,
+    orbit.pos.mul(-secondaryMass / totalMass),
+    orbit.vel.mul(-secondaryMass / totalMass),
+  );
+  placeGalaxy(
+    second,
+    orbit.pos.mul(primaryMass / totalMass),
+    orbit.vel.mul(primaryMass / totalMass),
+  );
+
+  return [first, second];
+};
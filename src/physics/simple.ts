@@ -39,91 +39,70 @@
  * same basic algorithm as the original.
  */
 import { Galaxy, Star } from '../astro';
-import { allStars } from './util';
-import { Matrix3x3, Vec3 } from '../math';
+import { Matrix3x3, RandomSource, Vec3 } from '../math';
+import { randomAngle } from '../math/angles';
+import { subdivideTimeStep } from './adaptive';
+import { PhysicsConfig, resolvePhysicsConfig } from './config';
+import { getIntegrator } from './integrators';
+import {
+  diskNormal,
+  Morphology,
+  MorphologyName,
+  resolveMorphology,
+  rotationFromNormal,
+  sampleStarPosition,
+  sampleStarVelocity,
+} from './morphology';
+import { computeForceAccelerations, coreGravity } from './forces';
+import { addGas, GasOptions } from './gas';
+import { circularVelocity, MassProfile, profileForceFactor } from './profiles';
+import { softeningOf } from './softening';
+
+export { DEFAULT_PHYSICS_CONFIG, resolvePhysicsConfig } from './config';
+export type { PhysicsConfig } from './config';
+
+// The standard model: the galaxy cores pull on each other and on every star
+const STANDARD_FORCES = [coreGravity()];
 
 /**
- * The time step for each update cycle of the simulation. Represents Δt.
- * A smaller value increases simulation accuracy but requires more computations.
+ * Calculates the acceleration of every galaxy and star from the current positions of the
+ * galaxies' central masses. Stars are massless, so they don't pull on anything. To add
+ * other forces, see `createForceModel`.
+ * @param galaxies - The galaxies to calculate accelerations for.
+ * @param config - The physics parameters to use.
+ * @returns The accelerations, in the same order as `allBodies(galaxies)`.
  */
-const TIME_STEP = 0.005;
+export const computeAccelerations = (
+  galaxies: Galaxy[],
+  config: Partial<PhysicsConfig> = {},
+): Vec3[] => computeForceAccelerations(STANDARD_FORCES, galaxies, config);
 
 /**
- * The gravitational constant for the simulation. This value can be tuned
- * to adjust the strength of the gravitational pull between celestial bodies.
+ * A simulator: anything that advances the galaxies by one time step, like `updateGalaxies`.
+ * The simulators in this library wrap and stand in for each other, and any of them can be
+ * the `simulator` of the `<galaxy-simulation>` web component.
  */
-const G = 0.001;
+export type Simulator = {
+  // Advances the galaxies by one time step. A simulator that can't always take a step straight
+  // away, such as one running in a Web Worker, returns false if the galaxies weren't changed.
+  updateGalaxies: (galaxies: Galaxy[], config?: Partial<PhysicsConfig>) => boolean | void;
+};
 
 /**
- * Updates the velocities and positions of the stars and galaxies
- * using Symplectic Euler integration.
+ * Updates the velocities and positions of the stars and galaxies by one time step.
+ *
+ * By default this uses Symplectic Euler integration, but any of the built-in integrators
+ * can be selected with the `integrator` option of the config. If the `adaptive` option is
+ * set, the time step is split into smaller substeps during close encounters.
  * @param galaxies - The array of galaxies to update.
+ * @param config - The physics parameters to use. Missing values fall back to the defaults.
  */
-export const updateGalaxies = (galaxies: Galaxy[]) => {
-  // 1. Update star velocities and positions
-  allStars(galaxies, (star) => {
-    // Accumulates the total acceleration on the star from all galaxies
-    let totalAcceleration = Vec3.zero();
-
-    for (const otherGalaxy of galaxies) {
-      // Get the vector from the star to the center of the other galaxy
-      const dPos = otherGalaxy.pos.sub(star.pos);
-      const distSq = dPos.magnitude ** 2; // Use squared distance for efficiency
-
-      // Avoid division by zero if a star is exactly at a galaxy's center
-      if (distSq === 0) continue;
-
-      // The formula for the gravitational acceleration vector is a = (G * M / r³) * r_vec
-      // where M is the mass of the attracting body and r is the distance.
-      const dist = Math.sqrt(distSq);
-      const accelerationScalar = (G * otherGalaxy.mass) / (dist * distSq); // (G * M / r³)
-      const accelerationVec = dPos.mul(accelerationScalar);
-
-      // Add this galaxy's contribution to the total acceleration
-      totalAcceleration = totalAcceleration.add(accelerationVec);
-    }
-
-    // Update velocity using acceleration: Δv = a * Δt
-    const deltaVelocity = totalAcceleration.mul(TIME_STEP);
-    star.vel = star.vel.add(deltaVelocity);
-
-    // Update position using the new velocity: Δp = v_new * Δt
-    star.pos = star.pos.add(star.vel.mul(TIME_STEP));
-  });
-
-  // 2. Calculate and update galaxy velocities
-  for (const galaxy of galaxies) {
-    let totalAcceleration = Vec3.zero();
-    for (const otherGalaxy of galaxies) {
-      // A galaxy isn't affected by its own gravity
-      if (galaxy === otherGalaxy) continue;
-
-      // Get the vector from the current galaxy to the other galaxy
-      const dPos = otherGalaxy.pos.sub(galaxy.pos);
-      const distSq = dPos.magnitude ** 2;
-
-      if (distSq === 0) continue;
-
-      // Calculate the acceleration vector using the same physics as for the stars
-      const dist = Math.sqrt(distSq);
-      const accelerationScalar = (G * otherGalaxy.mass) / (dist * distSq);
-      const accelerationVec = dPos.mul(accelerationScalar);
-
-      totalAcceleration = totalAcceleration.add(accelerationVec);
-    }
-
-    // Update the galaxy's velocity based on the total acceleration
-    const deltaVelocity = totalAcceleration.mul(TIME_STEP);
-    galaxy.vel = galaxy.vel.add(deltaVelocity);
-  }
-
-  // 3. Update galaxy positions
-  // This is done in a separate loop after all velocities have been calculated
-  // to ensure that all interactions in this time step use the positions from
-  // the beginning of the step (a key part of the Symplectic Euler method).
-  for (const galaxy of galaxies) {
-    galaxy.pos = galaxy.pos.add(galaxy.vel.mul(TIME_STEP));
-  }
+export const updateGalaxies = (galaxies: Galaxy[], config: Partial<PhysicsConfig> = {}) => {
+  const resolved = resolvePhysicsConfig(config);
+  const integrator = getIntegrator(resolved.integrator);
+  subdivideTimeStep(galaxies, resolved, (timeStep) =>
+    integrator(galaxies, timeStep, (current) => computeAccelerations(current, resolved)),
+  );
 };
 
 /**
@@ -149,6 +128,25 @@ export type GalaxyOptions = {
   rewindTimeSteps?: number;
   // A random offset to prevent direct head-on collisions.
   initialCollisionAvoidanceOffset?: number;
+  // The mass of the galaxy. Defaults to the number of stars.
+  mass?: number;
+  // The softening length of the galaxy's central mass. Defaults to the physics config's
+  // `softeningLength`.
+  softening?: number;
+  // How the galaxy's mass is spread out. Defaults to a point mass.
+  profile?: MassProfile;
+  // How the galaxy's stars are arranged: a `Morphology`, or the name of a built-in one such
+  // as 'spiral'. Defaults to the original uniform disk.
+  morphology?: Morphology | MorphologyName;
+  // The mass of each star. Stars are massless by default, which is all the standard model
+  // needs. Give them mass to use them with a self-gravitating simulator such as Barnes-Hut.
+  starMass?: number;
+  // Turns some of the galaxy's stars into gas, which collides and forms new stars (see
+  // `addGas`). Galaxies have no gas by default.
+  gas?: GasOptions;
+  // The source of random numbers. Pass a seeded source (see `createSeededRandom`) to get
+  // the same galaxy every time. Defaults to `Math.random`.
+  random?: RandomSource;
 };
 
 /**
@@ -156,9 +154,10 @@ export type GalaxyOptions = {
  * The galaxy is positioned to be flying towards the center of the simulation,
  * but offset to encourage orbiting rather than direct collisions.
  * @param options - The options for creating the galaxy.
+ * @param config - The physics parameters the galaxy will be simulated with.
  * @returns The created galaxy.
  */
-export const createRandomGalaxy = (options: GalaxyOptions) => {
+export const createRandomGalaxy = (options: GalaxyOptions, config: Partial<PhysicsConfig> = {}) => {
   const {
     minStarCount = 1500,
     maxStarCount,
@@ -167,10 +166,19 @@ export const createRandomGalaxy = (options: GalaxyOptions) => {
     maxInitialSpeed = 4,
     rewindTimeSteps = 3,
     initialCollisionAvoidanceOffset = 1.5,
+    random = Math.random,
+    mass,
+    softening,
+    profile,
+    morphology,
+    starMass = 0,
+    gas,
   } = options;
+  const resolved = resolvePhysicsConfig(config);
+  const shape = morphology === undefined ? undefined : resolveMorphology(morphology);
 
   // 1. Set the galaxy's overall motion in the simulation world.
-  const initialVelocity = Vec3.randomCentered(maxInitialSpeed);
+  const initialVelocity = Vec3.randomCentered(maxInitialSpeed, random);
 
   // 2. Calculate the galaxy's starting position.
   // This is a clever trick to avoid starting all galaxies at the center (0,0,0).
@@ -180,20 +188,33 @@ export const createRandomGalaxy = (options: GalaxyOptions) => {
 
   // Then, we add a small random offset. This knocks the galaxy off a perfect
   // head-on collision course, making interactions more dynamic.
-  const initialPosition = rewindVector.add(Vec3.randomCentered(initialCollisionAvoidanceOffset));
+  const initialPosition = rewindVector.add(
+    Vec3.randomCentered(initialCollisionAvoidanceOffset, random),
+  );
 
-  // 3. Set the galaxy's tilt (orientation in 3D space).
-  const rotation = Vec3.random(Math.PI);
+  // 3. Set the galaxy's tilt (orientation in 3D space), either as requested by the
+  // morphology or at random.
+  const rotation =
+    shape?.inclination !== undefined
+      ? rotationFromNormal(diskNormal(shape.inclination, shape.positionAngle), randomAngle(random))
+      : Vec3.random(Math.PI, random);
 
   // 4. Determine the galaxy's size and star count from the given ranges.
   const targetNumberOfStars = maxStarCount
-    ? Math.random() * (maxStarCount - minStarCount) + minStarCount
+    ? random() * (maxStarCount - minStarCount) + minStarCount
     : minStarCount;
   const galaxyRadius = maxGalaxyRadius
-    ? Math.random() * (maxGalaxyRadius - minGalaxyRadius) + minGalaxyRadius
+    ? random() * (maxGalaxyRadius - minGalaxyRadius) + minGalaxyRadius
     : minGalaxyRadius;
 
-  const galaxy = new Galaxy(initialVelocity, initialPosition, rotation, targetNumberOfStars);
+  const galaxy = new Galaxy(
+    initialVelocity,
+    initialPosition,
+    rotation,
+    mass ?? targetNumberOfStars,
+  );
+  galaxy.softening = softening;
+  galaxy.profile = profile;
 
   // Pre-calculate the rotation matrix. This is more efficient than
   // re-calculating it for every single star.
@@ -205,45 +226,113 @@ export const createRandomGalaxy = (options: GalaxyOptions) => {
 
   // 5. Populate the galaxy with stars.
   for (let i = 0; i < targetNumberOfStars; i++) {
-    galaxy.stars.push(createRandomStarInGalaxy(galaxy, rotationMatrix, galaxyRadius));
+    galaxy.stars.push(
+      shape
+        ? createMorphologyStarInGalaxy(
+            galaxy,
+            rotationMatrix,
+            galaxyRadius,
+            shape,
+            resolved,
+            random,
+          )
+        : createRandomStarInGalaxy(galaxy, rotationMatrix, galaxyRadius, resolved, random),
+    );
+  }
+
+  // 6. If the stars have mass, their own gravity adds to the pull of the central mass.
+  if (starMass > 0) {
+    addStellarMass(galaxy, starMass, resolved);
+  }
+
+  // 7. Some of the stars may be gas instead.
+  if (gas) {
+    addGas(galaxy, gas);
   }
 
   return galaxy;
 };
 
+/**
+ * Gives every star in a galaxy the same mass, and speeds up their orbits to account for the
+ * extra gravity.
+ *
+ * To keep things simple we treat the stars as if they were spread out in spherical shells.
+ * A star then only feels the pull of the stars closer to the centre than itself, which adds
+ * G * M_enclosed / r to the square of its circular orbital speed.
+ * @param galaxy - The galaxy whose stars should be given mass.
+ * @param starMass - The mass of each star.
+ * @param config - The physics parameters.
+ */
+const addStellarMass = (galaxy: Galaxy, starMass: number, config: PhysicsConfig) => {
+  const byDistance = galaxy.stars
+    .map((star) => ({ star, dist: star.pos.sub(galaxy.pos).magnitude }))
+    .sort((a, b) => a.dist - b.dist);
+
+  let enclosedMass = 0;
+  for (const { star, dist } of byDistance) {
+    star.mass = starMass;
+    if (dist > 0) {
+      const relativeVelocity = star.vel.sub(galaxy.vel);
+      const speedSq = relativeVelocity.dot(relativeVelocity);
+      const extraSpeedSq = (config.gravitationalConstant * enclosedMass) / dist;
+      if (speedSq > 0) {
+        const scale = Math.sqrt((speedSq + extraSpeedSq) / speedSq);
+        star.vel = galaxy.vel.add(relativeVelocity.mul(scale));
+      }
+    }
+    enclosedMass += starMass;
+  }
+};
+
 /**
  * Creates a single random star within a galaxy, giving it a position and orbital velocity.
  * @param galaxy - The galaxy the star belongs to.
  * @param rotationMatrix - The pre-calculated rotation matrix of the galaxy.
  * @param galaxyRadius - The radius of the galaxy's star disk.
+ * @param config - The physics parameters used to calculate the orbital speed.
+ * @param random - The source of random numbers.
  * @returns The created star.
  */
 const createRandomStarInGalaxy = (
   galaxy: Galaxy,
   rotationMatrix: Matrix3x3,
   galaxyRadius: number = 1,
+  config: PhysicsConfig = resolvePhysicsConfig(),
+  random: RandomSource = Math.random,
 ) => {
   // --- Create the star in the galaxy's LOCAL coordinate system ---
 
   // 1. Define the star's position on the flat galactic disk.
-  const angularPosition = 2 * Math.PI * Math.random(); // Random angle (0 to 2PI)
-  const distanceFromCenter = Math.random() * galaxyRadius; // Random distance from center
+  const angularPosition = 2 * Math.PI * random(); // Random angle (0 to 2PI)
+  const distanceFromCenter = random() * galaxyRadius; // Random distance from center
 
   // 2. Define the star's height above/below the galactic disk.
   // We use exponential decay `Math.exp(-x)` to ensure most stars are near the
   // central plane, creating a realistic disk with a central bulge.
   let heightFromPlane =
-    ((Math.random() * Math.exp(-2 * (distanceFromCenter / galaxyRadius))) / 5) * galaxyRadius;
-  if (Math.random() < 0.5) {
+    ((random() * Math.exp(-2 * (distanceFromCenter / galaxyRadius))) / 5) * galaxyRadius;
+  if (random() < 0.5) {
     heightFromPlane = -heightFromPlane; // 50% chance to be below the plane
   }
 
   // 3. Calculate the star's orbital speed.
-  // This uses the formula for orbital velocity: v = sqrt(G * M / r)
-  // where G is the gravitational constant (0.001 in our simulation),
+  // For a circular orbit, gravity provides exactly the centripetal acceleration v² / r.
+  // For a point mass this gives the formula for orbital velocity: v = sqrt(G * M / r)
+  // where G is the gravitational constant (0.001 by default in our simulation),
   // M is the mass of the galaxy, and r is the star's distance from the center.
-  const distanceToCenter3D = Math.sqrt(distanceFromCenter ** 2 + heightFromPlane ** 2);
-  const orbitalSpeed = Math.sqrt((galaxy.mass * G) / distanceToCenter3D);
+  // Within the softening length the pull is weaker, so the star must orbit more slowly.
+  // For an extended mass profile, only the mass M(r) within the star's orbit counts.
+  const distanceToCenterSq = distanceFromCenter ** 2 + heightFromPlane ** 2;
+  const forceFactor = profileForceFactor(
+    galaxy.profile,
+    distanceToCenterSq,
+    softeningOf(galaxy, config),
+    config.softeningKernel,
+  );
+  const orbitalSpeed = Math.sqrt(
+    config.gravitationalConstant * galaxy.mass * forceFactor * distanceToCenterSq,
+  );
 
   // 4. Create local position and velocity vectors.
   const sinW = Math.sin(angularPosition);
@@ -267,3 +356,33 @@ const createRandomStarInGalaxy = (
 
   return new Star(worldPosition, worldVelocity);
 };
+
+/**
+ * Creates a single random star within a galaxy with the given morphology.
+ * @param galaxy - The galaxy the star belongs to.
+ * @param rotationMatrix - The pre-calculated rotation matrix of the galaxy.
+ * @param galaxyRadius - The radius of the galaxy.
+ * @param morphology - The arrangement of the galaxy's stars.
+ * @param config - The physics parameters used to calculate the orbital speed.
+ * @param random - The source of random numbers.
+ * @returns The created star.
+ */
+const createMorphologyStarInGalaxy = (
+  galaxy: Galaxy,
+  rotationMatrix: Matrix3x3,
+  galaxyRadius: number,
+  morphology: Morphology,
+  config: PhysicsConfig,
+  random: RandomSource,
+) => {
+  // Place the star in the galaxy's local coordinate system, give it the speed of a circular
+  // orbit at its distance from the centre, and then rotate both into world coordinates.
+  const local = sampleStarPosition(morphology, galaxyRadius, random);
+  const orbitalSpeed = circularVelocity(galaxy, local.pos.magnitude, config);
+  const localVelocity = sampleStarVelocity(local, orbitalSpeed, morphology, random);
+
+  const worldPosition = rotationMatrix.transform(local.pos).add(galaxy.pos);
+  const worldVelocity = rotationMatrix.transform(localVelocity).add(galaxy.vel);
+
+  return new Star(worldPosition, worldVelocity);
+};
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { Galaxy, Star } from '../astro';
+import { Vec3 } from '../math';
+import {
+  createSnapshot,
+  decodeSnapshot,
+  encodeSnapshot,
+  restoreSnapshot,
+  snapshotFromJSON,
+  snapshotToJSON,
+  SNAPSHOT_VERSION,
+  validateSnapshot,
+} from './snapshot';
+
+const createGalaxies = () => {
+  const first = new Galaxy(new Vec3(0.1, 0.2, 0), new Vec3(-2, 0.3, 0), new Vec3(0, 0, 1), 1000);
+  first.softening = 0.05;
+  first.data = { name: 'first' };
+  first.stars.push(new Star(new Vec3(-1.7, 0.1, 0.01), new Vec3(0.3, 0.9, 0), 0.1));
+  const star = new Star(new Vec3(-2.2, -0.4, 0), new Vec3(0.6, -0.7, 0.05));
+  star.data = { colour: 'blue' };
+  first.stars.push(star);
+  const second = new Galaxy(new Vec3(-0.1, 0, 0), new Vec3(2, -0.3, 0), new Vec3(0, 1, 0), 400);
+  return [first, second];
+};
+
+const config = { timeStep: 0.05, integrator: 'symplectic-euler' as const, adaptive: true };
+
+describe('snapshots', () => {
+  it('restore the galaxies they were taken of', () => {
+    const galaxies = createGalaxies();
+    const restored = restoreSnapshot(createSnapshot(galaxies, config, 12));
+    expect(restored.step).toBe(12);
+    expect(restored.config).toMatchObject(config);
+    expect(restored.galaxies.map((galaxy) => galaxy.id)).toEqual(galaxies.map(({ id }) => id));
+    expect(createSnapshot(restored.galaxies, restored.config, 12)).toEqual(
+      createSnapshot(galaxies, config, 12),
+    );
+  });
+
+  it('round-trip through JSON and the binary form exactly', () => {
+    const snapshot = createSnapshot(createGalaxies(), config, 3);
+    expect(snapshotFromJSON(snapshotToJSON(snapshot))).toEqual(snapshot);
+    expect(decodeSnapshot(encodeSnapshot(snapshot))).toEqual(snapshot);
+  });
+
+  it('give galaxies created after a restore new ids', () => {
+    const snapshot = createSnapshot(createGalaxies());
+    snapshot.galaxies[0].id = 1_000_000;
+    restoreSnapshot(snapshot);
+    expect(new Galaxy(Vec3.zero(), Vec3.zero(), Vec3.zero(), 1).id).toBeGreaterThan(1_000_000);
+  });
+});
+
+describe('validateSnapshot', () => {
+  const valid = () => JSON.parse(snapshotToJSON(createSnapshot(createGalaxies(), config)));
+
+  it('rejects values that are not snapshots', () => {
+    expect(() => validateSnapshot(null)).toThrow('not a galaxy-js snapshot');
+    expect(() => validateSnapshot({ galaxies: [] })).toThrow('not a galaxy-js snapshot');
+    expect(() => snapshotFromJSON('{')).toThrow('not valid JSON');
+  });
+
+  it('rejects snapshots from newer versions', () => {
+    expect(() => validateSnapshot({ ...valid(), version: SNAPSHOT_VERSION + 1 })).toThrow(
+      'newer version',
+    );
+  });
+
+  it('reports where a value is wrong', () => {
+    const snapshot = valid();
+    snapshot.galaxies[0].stars[1].pos = [0, 'x', 0];
+    expect(() => validateSnapshot(snapshot)).toThrow('galaxies[0].stars[1].pos');
+    snapshot.galaxies[0].stars[1].pos = [0, 0, 0];
+    snapshot.galaxies[1].mass = null;
+    expect(() => validateSnapshot(snapshot)).toThrow('galaxies[1].mass');
+  });
+
+  it('only keeps known physics parameters, and checks them', () => {
+    const snapshot = valid();
+    snapshot.config.simulator = 'something else';
+    expect(validateSnapshot(snapshot).config).not.toHaveProperty('simulator');
+    expect(() =>
+      validateSnapshot({ ...valid(), config: { ...snapshot.config, integrator: 'toString' } }),
+    ).toThrow('config.integrator');
+    expect(() =>
+      validateSnapshot({ ...valid(), config: { ...snapshot.config, adaptive: 'yes' } }),
+    ).toThrow('config.adaptive');
+    expect(() =>
+      validateSnapshot({ ...valid(), config: { ...snapshot.config, softeningKernel: 'box' } }),
+    ).toThrow('config.softeningKernel');
+  });
+});
+
+describe('decodeSnapshot', () => {
+  const encoded = () => encodeSnapshot(createSnapshot(createGalaxies(), config));
+
+  it('rejects data that is not a binary snapshot', () => {
+    expect(() => decodeSnapshot(new ArrayBuffer(4))).toThrow('too short');
+    expect(() => decodeSnapshot(new ArrayBuffer(16))).toThrow('not a binary galaxy-js snapshot');
+  });
+
+  it('rejects snapshots from newer versions', () => {
+    const buffer = encoded();
+    new DataView(buffer).setUint32(4, SNAPSHOT_VERSION + 1, true);
+    expect(() => decodeSnapshot(buffer)).toThrow('newer version');
+  });
+
+  it('rejects truncated headers and stars', () => {
+    const buffer = encoded();
+    expect(() => decodeSnapshot(buffer.slice(0, 20))).toThrow('header is truncated');
+    expect(() => decodeSnapshot(buffer.slice(0, buffer.byteLength - 8))).toThrow('truncated');
+  });
+});
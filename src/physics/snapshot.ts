@@ -0,0 +1,495 @@
+import { Galaxy, reserveGalaxyId, Star } from '../astro';
+import { Vec3 } from '../math';
+import { PhysicsConfig, resolvePhysicsConfig } from './config';
+import { GasProperties } from './gas';
+import { INTEGRATORS } from './integrators';
+import { MassProfile } from './profiles';
+import { checkSofteningKernel } from './softening';
+
+/**
+ * Snapshots: saving the state of a simulation so that it can be resumed later.
+ *
+ * `Galaxy` and `Star` hold `Vec3` instances, which don't survive a trip through JSON. A
+ * snapshot is a plain copy of everything needed to carry on where the simulation left off:
+ * the position, velocity and mass of every body, each galaxy's orientation, profile, gas and
+ * `data`, the physics config and the number of steps taken.
+ *
+ * Snapshots can be saved as JSON, which is easy to read and edit, or in a compact binary
+ * form, which is much smaller for large numbers of stars. Both record the format version,
+ * and are checked when they are loaded.
+ *
+ * The `data` of galaxies and stars is copied as JSON, so anything stored there should be
+ * plain data: numbers, strings, booleans, arrays and objects.
+ */
+
+/**
+ * The version of the snapshot format written by this code. It goes up whenever the format
+ * changes in a way older code can't read.
+ */
+export const SNAPSHOT_VERSION = 1;
+
+// Identifies a snapshot, in both the JSON and binary forms
+const SNAPSHOT_FORMAT = 'galaxy-js-snapshot';
+const BINARY_MAGIC = 'GXSN';
+
+// The number of values stored for each star in the binary form: position, velocity and mass
+const STAR_VALUES = 7;
+
+/**
+ * A saved star.
+ */
+export type StarSnapshot = {
+  pos: [number, number, number];
+  vel: [number, number, number];
+  mass: number;
+  data: Record<string, unknown>;
+};
+
+/**
+ * A saved galaxy.
+ */
+export type GalaxySnapshot = {
+  // The galaxy's id, which stars refer to in their binding analysis.
+  id: number;
+  pos: [number, number, number];
+  vel: [number, number, number];
+  rotation: [number, number, number];
+  mass: number;
+  softening?: number;
+  profile?: MassProfile;
+  gas?: GasProperties;
+  data: Record<string, unknown>;
+  stars: StarSnapshot[];
+};
+
+/**
+ * The saved state of a whole simulation.
+ */
+export type Snapshot = {
+  format: typeof SNAPSHOT_FORMAT;
+  version: number;
+  // The number of steps the simulation had taken.
+  step: number;
+  // The physics parameters the simulation was running with.
+  config: PhysicsConfig;
+  galaxies: GalaxySnapshot[];
+};
+
+/**
+ * A simulation restored from a snapshot.
+ */
+export type RestoredSnapshot = {
+  galaxies: Galaxy[];
+  config: PhysicsConfig;
+  step: number;
+};
+
+const toArray = (vec: Vec3): [number, number, number] => [vec.x, vec.y, vec.z];
+
+const fromArray = ([x, y, z]: [number, number, number]) => new Vec3(x, y, z);
+
+/**
+ * Copies a `data` bag, so that the snapshot doesn't change if the simulation does.
+ */
+const copyData = (data: Record<string, unknown>): Record<string, unknown> =>
+  JSON.parse(JSON.stringify(data));
+
+/**
+ * Takes a snapshot of a simulation.
+ * @param galaxies - The galaxies to save.
+ * @param config - The physics parameters the simulation is running with.
+ * @param step - The number of steps the simulation has taken.
+ * @returns The snapshot, which shares nothing with the galaxies.
+ */
+export const createSnapshot = (
+  galaxies: Galaxy[],
+  config: Partial<PhysicsConfig> = {},
+  step: number = 0,
+): Snapshot => ({
+  format: SNAPSHOT_FORMAT,
+  version: SNAPSHOT_VERSION,
+  step,
+  config: resolvePhysicsConfig(config),
+  galaxies: galaxies.map((galaxy) => ({
+    id: galaxy.id,
+    pos: toArray(galaxy.pos),
+    vel: toArray(galaxy.vel),
+    rotation: toArray(galaxy.rotation),
+    mass: galaxy.mass,
+    softening: galaxy.softening,
+    profile: galaxy.profile && { ...galaxy.profile },
+    gas: galaxy.gas && { ...galaxy.gas },
+    data: copyData(galaxy.data),
+    stars: galaxy.stars.map((star) => ({
+      pos: toArray(star.pos),
+      vel: toArray(star.vel),
+      mass: star.mass,
+      data: copyData(star.data),
+    })),
+  })),
+});
+
+/**
+ * Creates the galaxies saved in a snapshot. The snapshot is checked first.
+ *
+ * The galaxies keep their saved ids, so that stars still know which galaxy they came from.
+ * @param snapshot - The snapshot to restore.
+ * @returns The galaxies, the physics config and the step count.
+ * @throws Error if the snapshot isn't valid
+ */
+export const restoreSnapshot = (snapshot: Snapshot): RestoredSnapshot =>
+  restoreTrustedSnapshot(validateSnapshot(snapshot));
+
+/**
+ * Creates the galaxies saved in a snapshot without checking it first. This is only safe for
+ * snapshots this code has just created with `createSnapshot`, such as the frames of a
+ * recording, and saves checking every value of a snapshot that is restored often. Use
+ * `restoreSnapshot` for anything else.
+ * @param snapshot - The snapshot to restore.
+ * @returns The galaxies, the physics config and the step count.
+ */
+export const restoreTrustedSnapshot = (snapshot: Snapshot): RestoredSnapshot => {
+  const galaxies = snapshot.galaxies.map((saved) => {
+    const galaxy = new Galaxy(
+      fromArray(saved.vel),
+      fromArray(saved.pos),
+      fromArray(saved.rotation),
+      saved.mass,
+    );
+    galaxy.id = saved.id;
+    reserveGalaxyId(saved.id);
+    galaxy.softening = saved.softening;
+    galaxy.profile = saved.profile && { ...saved.profile };
+    galaxy.gas = saved.gas && { ...saved.gas };
+    galaxy.data = copyData(saved.data);
+    galaxy.stars = saved.stars.map((savedStar) => {
+      const star = new Star(fromArray(savedStar.pos), fromArray(savedStar.vel), savedStar.mass);
+      star.data = copyData(savedStar.data);
+      return star;
+    });
+    return galaxy;
+  });
+  return { galaxies, config: { ...snapshot.config }, step: snapshot.step };
+};
+
+const invalid = (message: string): never => {
+  throw new Error(`Invalid snapshot: ${message}`);
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const checkNumber = (value: unknown, path: string) => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    invalid(`${path} must be a finite number`);
+  }
+  return value as number;
+};
+
+const checkVector = (value: unknown, path: string) => {
+  if (!Array.isArray(value) || value.length !== 3) {
+    invalid(`${path} must be an array of three numbers`);
+  }
+  (value as unknown[]).forEach((component, i) => checkNumber(component, `${path}[${i}]`));
+  return value as [number, number, number];
+};
+
+const checkData = (value: unknown, path: string) => {
+  if (!isObject(value)) {
+    invalid(`${path} must be an object`);
+  }
+  return value as Record<string, unknown>;
+};
+
+const checkProfile = (value: unknown, path: string): MassProfile | undefined => {
+  if (value === undefined) return undefined;
+  if (!isObject(value)) {
+    return invalid(`${path} must be an object`);
+  }
+  switch (value.type) {
+    case 'point':
+      return { type: 'point' };
+    case 'plummer':
+    case 'hernquist':
+      return {
+        type: value.type,
+        scaleRadius: checkNumber(value.scaleRadius, `${path}.scaleRadius`),
+      };
+    case 'nfw':
+    case 'logarithmic':
+      return {
+        type: value.type,
+        scaleRadius: checkNumber(value.scaleRadius, `${path}.scaleRadius`),
+        outerRadius: checkNumber(value.outerRadius, `${path}.outerRadius`),
+      };
+    default:
+      return invalid(`${path}.type is not a known mass profile: ${String(value.type)}`);
+  }
+};
+
+const checkGas = (value: unknown, path: string): GasProperties | undefined => {
+  if (value === undefined) return undefined;
+  if (!isObject(value)) {
+    return invalid(`${path} must be an object`);
+  }
+  return {
+    collisionRadius: checkNumber(value.collisionRadius, `${path}.collisionRadius`),
+    restitution: checkNumber(value.restitution, `${path}.restitution`),
+    densityThreshold: checkNumber(value.densityThreshold, `${path}.densityThreshold`),
+    starFormationRate: checkNumber(value.starFormationRate, `${path}.starFormationRate`),
+    youngStarLifetime: checkNumber(value.youngStarLifetime, `${path}.youngStarLifetime`),
+  };
+};
+
+/**
+ * Copies the physics parameters a snapshot can set, checking each one. Anything else in the
+ * saved config is ignored, since a snapshot may come from an untrusted file.
+ */
+const checkConfig = (value: unknown): Partial<PhysicsConfig> => {
+  const saved = checkData(value, 'config');
+  const config: Partial<PhysicsConfig> = {};
+  const numbers = [
+    'timeStep',
+    'gravitationalConstant',
+    'softeningLength',
+    'adaptiveTolerance',
+    'minTimeStep',
+    'maxTimeStep',
+  ] as const;
+  for (const key of numbers) {
+    if (saved[key] !== undefined) config[key] = checkNumber(saved[key], `config.${key}`);
+  }
+  for (const key of ['adaptive', 'adaptiveStars'] as const) {
+    if (saved[key] === undefined) continue;
+    if (typeof saved[key] !== 'boolean') invalid(`config.${key} must be true or false`);
+    config[key] = saved[key] as boolean;
+  }
+  if (saved.integrator !== undefined) {
+    if (
+      typeof saved.integrator !== 'string' ||
+      !Object.prototype.hasOwnProperty.call(INTEGRATORS, saved.integrator)
+    ) {
+      invalid(`config.integrator is not a known integrator: ${String(saved.integrator)}`);
+    }
+    config.integrator = saved.integrator as PhysicsConfig['integrator'];
+  }
+  if (saved.softeningKernel !== undefined) {
+    try {
+      config.softeningKernel = checkSofteningKernel(String(saved.softeningKernel));
+    } catch {
+      invalid(`config.softeningKernel is not a known kernel: ${String(saved.softeningKernel)}`);
+    }
+  }
+  return config;
+};
+
+const checkStar = (value: unknown, path: string): StarSnapshot => {
+  if (!isObject(value)) {
+    return invalid(`${path} must be an object`);
+  }
+  return {
+    pos: checkVector(value.pos, `${path}.pos`),
+    vel: checkVector(value.vel, `${path}.vel`),
+    mass: checkNumber(value.mass, `${path}.mass`),
+    data: checkData(value.data ?? {}, `${path}.data`),
+  };
+};
+
+const checkGalaxy = (value: unknown, path: string): GalaxySnapshot => {
+  if (!isObject(value)) {
+    return invalid(`${path} must be an object`);
+  }
+  if (!Array.isArray(value.stars)) {
+    return invalid(`${path}.stars must be an array`);
+  }
+  return {
+    id: checkNumber(value.id, `${path}.id`),
+    pos: checkVector(value.pos, `${path}.pos`),
+    vel: checkVector(value.vel, `${path}.vel`),
+    rotation: checkVector(value.rotation, `${path}.rotation`),
+    mass: checkNumber(value.mass, `${path}.mass`),
+    softening:
+      value.softening === undefined ? undefined : checkNumber(value.softening, `${path}.softening`),
+    profile: checkProfile(value.profile, `${path}.profile`),
+    gas: checkGas(value.gas, `${path}.gas`),
+    data: checkData(value.data ?? {}, `${path}.data`),
+    stars: value.stars.map((star, i) => checkStar(star, `${path}.stars[${i}]`)),
+  };
+};
+
+/**
+ * Checks that a value, for example one read from a file, is a snapshot this code can load.
+ * Missing physics parameters are filled in with their defaults, and anything in the config
+ * that isn't a physics parameter is left out.
+ * @param value - The value to check.
+ * @returns The snapshot.
+ * @throws Error describing the first problem found, if the value isn't a valid snapshot
+ */
+export const validateSnapshot = (value: unknown): Snapshot => {
+  if (!isObject(value) || value.format !== SNAPSHOT_FORMAT) {
+    return invalid('not a galaxy-js snapshot');
+  }
+  const version = checkNumber(value.version, 'version');
+  if (version > SNAPSHOT_VERSION) {
+    return invalid(
+      `version ${version} was saved by a newer version of galaxy-js (this one reads up to version ${SNAPSHOT_VERSION})`,
+    );
+  }
+  if (!Array.isArray(value.galaxies)) {
+    return invalid('galaxies must be an array');
+  }
+  return {
+    format: SNAPSHOT_FORMAT,
+    version,
+    step: checkNumber(value.step ?? 0, 'step'),
+    config: resolvePhysicsConfig(checkConfig(value.config ?? {})),
+    galaxies: value.galaxies.map((galaxy, i) => checkGalaxy(galaxy, `galaxies[${i}]`)),
+  };
+};
+
+/**
+ * Saves a snapshot as JSON.
+ * @param snapshot - The snapshot to save.
+ * @returns The JSON text.
+ */
+export const snapshotToJSON = (snapshot: Snapshot) => JSON.stringify(snapshot);
+
+/**
+ * Loads a snapshot saved by `snapshotToJSON`.
+ * @param json - The JSON text.
+ * @returns The snapshot.
+ * @throws Error if the text isn't JSON, or isn't a valid snapshot
+ */
+export const snapshotFromJSON = (json: string) => {
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch (error) {
+    return invalid(`not valid JSON (${error instanceof Error ? error.message : String(error)})`);
+  }
+  return validateSnapshot(value);
+};
+
+/**
+ * Saves a snapshot in the compact binary form.
+ *
+ * The layout is:
+ *  - the four characters `GXSN`
+ *  - the format version, as a 32 bit unsigned integer
+ *  - the length of the header in bytes, as a 32 bit unsigned integer
+ *  - the header: the snapshot as UTF-8 JSON, without the stars' positions, velocities and
+ *    masses. Each galaxy has a `starCount`, and `starData` if any of its stars have data.
+ *  - padding up to a multiple of 8 bytes
+ *  - the position, velocity and mass of every star, galaxy by galaxy, as 64 bit floats
+ *
+ * All numbers are little-endian. Positions and velocities are stored exactly.
+ * @param snapshot - The snapshot to save.
+ * @returns The binary data.
+ */
+export const encodeSnapshot = (snapshot: Snapshot): ArrayBuffer => {
+  let totalStars = 0;
+  const header = {
+    ...snapshot,
+    galaxies: snapshot.galaxies.map(({ stars, ...galaxy }) => {
+      totalStars += stars.length;
+      const hasData = stars.some((star) => Object.keys(star.data).length > 0);
+      return {
+        ...galaxy,
+        starCount: stars.length,
+        starData: hasData ? stars.map((star) => star.data) : undefined,
+      };
+    }),
+  };
+  const headerBytes = new TextEncoder().encode(JSON.stringify(header));
+  const dataOffset = Math.ceil((12 + headerBytes.length) / 8) * 8;
+
+  const buffer = new ArrayBuffer(dataOffset + totalStars * STAR_VALUES * 8);
+  const view = new DataView(buffer);
+  for (let i = 0; i < BINARY_MAGIC.length; i++) {
+    view.setUint8(i, BINARY_MAGIC.charCodeAt(i));
+  }
+  view.setUint32(4, snapshot.version, true);
+  view.setUint32(8, headerBytes.length, true);
+  new Uint8Array(buffer, 12, headerBytes.length).set(headerBytes);
+
+  let offset = dataOffset;
+  for (const galaxy of snapshot.galaxies) {
+    for (const { pos, vel, mass } of galaxy.stars) {
+      for (const value of [...pos, ...vel, mass]) {
+        view.setFloat64(offset, value, true);
+        offset += 8;
+      }
+    }
+  }
+  return buffer;
+};
+
+/**
+ * Loads a snapshot saved by `encodeSnapshot`.
+ * @param buffer - The binary data.
+ * @returns The snapshot.
+ * @throws Error if the data isn't a valid snapshot
+ */
+export const decodeSnapshot = (buffer: ArrayBuffer) => {
+  const view = new DataView(buffer);
+  if (buffer.byteLength < 12) {
+    return invalid('too short to be a binary snapshot');
+  }
+  const magic = String.fromCharCode(...new Uint8Array(buffer, 0, 4));
+  if (magic !== BINARY_MAGIC) {
+    return invalid('not a binary galaxy-js snapshot');
+  }
+  const version = view.getUint32(4, true);
+  if (version > SNAPSHOT_VERSION) {
+    return invalid(
+      `version ${version} was saved by a newer version of galaxy-js (this one reads up to version ${SNAPSHOT_VERSION})`,
+    );
+  }
+  const headerLength = view.getUint32(8, true);
+  if (12 + headerLength > buffer.byteLength) {
+    return invalid('the header is truncated');
+  }
+
+  let header: unknown;
+  try {
+    header = JSON.parse(new TextDecoder().decode(new Uint8Array(buffer, 12, headerLength)));
+  } catch {
+    return invalid('the header is not valid JSON');
+  }
+  if (!isObject(header) || !Array.isArray(header.galaxies)) {
+    return invalid('galaxies must be an array');
+  }
+
+  let offset = Math.ceil((12 + headerLength) / 8) * 8;
+  const read = () => {
+    const value = view.getFloat64(offset, true);
+    offset += 8;
+    return value;
+  };
+  const galaxies = header.galaxies.map((galaxy: unknown, i) => {
+    if (!isObject(galaxy)) {
+      return galaxy;
+    }
+    const { starCount, starData, ...rest } = galaxy;
+    const count = checkNumber(starCount, `galaxies[${i}].starCount`);
+    if (!Number.isInteger(count) || count < 0) {
+      return invalid(`galaxies[${i}].starCount must be a whole number`);
+    }
+    if (offset + count * STAR_VALUES * 8 > buffer.byteLength) {
+      return invalid(`the stars of galaxies[${i}] are truncated`);
+    }
+    const stars = [];
+    for (let j = 0; j < count; j++) {
+      stars.push({
+        pos: [read(), read(), read()],
+        vel: [read(), read(), read()],
+        mass: read(),
+        data: Array.isArray(starData) ? starData[j] : {},
+      });
+    }
+    return { ...rest, stars };
+  });
+
+  // The version before the header is the one the data was written with
+  return validateSnapshot({ ...header, version, galaxies });
+};
@@ -0,0 +1,145 @@
+/**
+ * Gravitational softening.
+ *
+ * Newton's law of gravity says the acceleration towards a point mass grows as 1/r², so it
+ * becomes infinite as r approaches zero. In a simulation with a finite time step, a star that
+ * passes very close to a galaxy's centre gets an enormous kick in a single step and is flung
+ * out of the scene - something that would never happen to a real star, because real galaxies
+ * are not point masses.
+ *
+ * Softening fixes this by smoothing out the force within a small "softening length" ε of
+ * each mass. Far from the mass the force is unchanged.
+ */
+
+import { Galaxy } from '../astro';
+import { PhysicsConfig } from './config';
+
+/**
+ * The available softening kernels:
+ * - `none`: Pure Newtonian gravity. The softening length is ignored.
+ * - `plummer`: The force of a Plummer sphere, a = G M r / (r² + ε²)^(3/2). Simple and smooth,
+ *   but it slightly weakens the force at all distances.
+ * - `spline`: The cubic spline kernel used by GADGET. The force is exactly Newtonian beyond
+ *   2.8 ε, and matches the Plummer potential at r = 0.
+ */
+export type SofteningKernel = 'none' | 'plummer' | 'spline';
+
+/**
+ * The names of the available softening kernels.
+ */
+export const SOFTENING_KERNELS: readonly SofteningKernel[] = ['none', 'plummer', 'spline'];
+
+/**
+ * Checks that a softening kernel exists.
+ * @param name - The name of the kernel.
+ * @returns The name, as a kernel.
+ * @throws Error if there is no kernel with that name
+ */
+export const checkSofteningKernel = (name: string): SofteningKernel => {
+  if (!(SOFTENING_KERNELS as readonly string[]).includes(name)) {
+    throw new Error(
+      `Unknown softening kernel "${name}". Expected one of: ${SOFTENING_KERNELS.join(', ')}`,
+    );
+  }
+  return name as SofteningKernel;
+};
+
+/**
+ * Gets the softening length of a galaxy's central mass.
+ * @param galaxy - The galaxy.
+ * @param config - The physics parameters, which provide the default softening length.
+ * @returns The softening length.
+ */
+export const softeningOf = (galaxy: Galaxy, config: PhysicsConfig) =>
+  galaxy.softening ?? config.softeningLength;
+
+// The spline kernel is compact: it only modifies the force within h = 2.8 ε of the mass,
+// which makes its central potential equal to the Plummer potential with the same ε.
+const SPLINE_SCALE = 2.8;
+
+/**
+ * Calculates the softened equivalent of 1/r³, so that the gravitational acceleration towards
+ * a mass M is a = G * M * factor * r_vec.
+ *
+ * @param distSq - The squared distance to the mass.
+ * @param softeningLength - The softening length ε.
+ * @param kernel - The softening kernel to use.
+ * @returns The acceleration factor, or 0 if the distance is zero.
+ */
+export const softenedForceFactor = (
+  distSq: number,
+  softeningLength: number,
+  kernel: SofteningKernel,
+): number => {
+  if (kernel === 'none' || softeningLength <= 0) {
+    // Avoid division by zero if the point is exactly at the mass
+    if (distSq === 0) return 0;
+    const dist = Math.sqrt(distSq);
+    return 1 / (dist * distSq); // 1 / r³
+  }
+
+  if (kernel === 'plummer') {
+    const softenedSq = distSq + softeningLength ** 2;
+    return 1 / (softenedSq * Math.sqrt(softenedSq)); // 1 / (r² + ε²)^(3/2)
+  }
+  if (kernel !== 'spline') checkSofteningKernel(kernel);
+
+  const h = SPLINE_SCALE * softeningLength;
+  const dist = Math.sqrt(distSq);
+  if (dist >= h) {
+    return 1 / (dist * distSq);
+  }
+  const u = dist / h;
+  const h3 = h * h * h;
+  if (u < 0.5) {
+    return (10.666666666667 + u * u * (32.0 * u - 38.4)) / h3;
+  }
+  return (
+    (21.333333333333 -
+      48.0 * u +
+      38.4 * u * u -
+      10.666666666667 * u * u * u -
+      0.066666666667 / (u * u * u)) /
+    h3
+  );
+};
+
+/**
+ * Calculates the softened equivalent of 1/r, so that the gravitational potential of a mass M
+ * is Φ = -G * M * factor. This is the potential that matches `softenedForceFactor`.
+ *
+ * @param dist - The distance to the mass.
+ * @param softeningLength - The softening length ε.
+ * @param kernel - The softening kernel to use.
+ * @returns The potential factor, or 0 if the distance is zero and there is no softening.
+ */
+export const softenedPotentialFactor = (
+  dist: number,
+  softeningLength: number,
+  kernel: SofteningKernel,
+): number => {
+  if (kernel === 'none' || softeningLength <= 0) {
+    return dist === 0 ? 0 : 1 / dist;
+  }
+
+  if (kernel === 'plummer') {
+    return 1 / Math.sqrt(dist ** 2 + softeningLength ** 2); // 1 / (r² + ε²)^(1/2)
+  }
+  if (kernel !== 'spline') checkSofteningKernel(kernel);
+
+  const h = SPLINE_SCALE * softeningLength;
+  if (dist >= h) {
+    return 1 / dist;
+  }
+  const u = dist / h;
+  if (u < 0.5) {
+    return -(-2.8 + u * u * (5.333333333333 + u * u * (6.4 * u - 9.6))) / h;
+  }
+  return (
+    -(
+      -3.2 +
+      0.066666666667 / u +
+      u * u * (10.666666666667 + u * (-16.0 + u * (9.6 - 2.133333333333 * u)))
+    ) / h
+  );
+};
@@ -0,0 +1,173 @@
+import { Galaxy } from '../astro';
+import { Vec3 } from '../math';
+import { PhysicsConfig, resolvePhysicsConfig } from './config';
+
+/**
+ * Physical units.
+ *
+ * The simulation works in its own units: a galaxy is about 1 unit across, has a mass of
+ * about 1000 and G is 0.001. Nothing in the physics depends on what these units mean, so we
+ * are free to choose: if a unit of length is 10 kiloparsecs, and a unit of mass is 100 million
+ * suns, then the same simulation describes galaxies the size and mass of the Milky Way.
+ *
+ * Only two of the units can be chosen freely. Gravity ties length, mass and time together,
+ * since the simulation's G must be the real G measured in the simulation's units:
+ *
+ *   G_sim * L * V² / M = G   so   V = √(G M / (G_sim L)),   T = L / V
+ *
+ * where L is the unit of length in kpc, M the unit of mass in solar masses, V the unit of
+ * velocity in km/s and T the unit of time. With G = 4.30091e-6 kpc (km/s)² / M☉ and the
+ * defaults, a unit of velocity is about 207 km/s and a unit of time about 47 million years,
+ * so each step of the default simulation is about 240,000 years.
+ */
+
+/**
+ * The gravitational constant in kpc (km/s)² per solar mass.
+ */
+export const GRAVITATIONAL_CONSTANT_KPC = 4.30091e-6;
+
+/**
+ * The number of kilometres in a kiloparsec.
+ */
+export const KM_PER_KPC = 3.085677581491367e16;
+
+/**
+ * The number of seconds in a million (Julian) years.
+ */
+export const SECONDS_PER_MYR = 3.15576e13;
+
+/**
+ * Options for a unit system.
+ */
+export type UnitSystemOptions = {
+  // The length of one simulation unit in kiloparsecs. Defaults to 10.
+  length?: number;
+  // The mass of one simulation unit in solar masses. Defaults to 1e8.
+  mass?: number;
+};
+
+/**
+ * The values of a galaxy's core in physical units.
+ */
+export type PhysicalGalaxy = {
+  // The position in kpc.
+  position: Vec3;
+  // The velocity in km/s.
+  velocity: Vec3;
+  // The mass in solar masses.
+  mass: number;
+};
+
+/**
+ * A unit system, as created by `createUnitSystem`.
+ */
+export type UnitSystem = ReturnType<typeof createUnitSystem>;
+
+/**
+ * Creates a unit system, which converts between simulation units and kiloparsecs, km/s,
+ * millions of years and solar masses. The units of velocity and time follow from the units
+ * of length and mass and the simulation's gravitational constant.
+ * @param options - The unit system options.
+ * @param config - The physics parameters the simulation is running with.
+ * @returns The unit system.
+ * @throws Error if a unit, or the gravitational constant, isn't positive
+ */
+export const createUnitSystem = (
+  options: UnitSystemOptions = {},
+  config: Partial<PhysicsConfig> = {},
+) => {
+  const { length = 10, mass = 1e8 } = options;
+  const { gravitationalConstant } = resolvePhysicsConfig(config);
+  if (!(length > 0) || !(mass > 0)) {
+    throw new Error(`The units of length and mass must be positive, not ${length} and ${mass}`);
+  }
+  if (!(gravitationalConstant > 0)) {
+    throw new Error('Physical units need a positive gravitational constant');
+  }
+
+  const velocity = Math.sqrt(
+    (GRAVITATIONAL_CONSTANT_KPC * mass) / (gravitationalConstant * length),
+  );
+  // A kpc / (km/s) is the time it takes to travel a kiloparsec at 1 km/s
+  const time = ((length / velocity) * KM_PER_KPC) / SECONDS_PER_MYR;
+
+  return {
+    /**
+     * The length of one simulation unit in kpc.
+     */
+    length,
+
+    /**
+     * The mass of one simulation unit in solar masses.
+     */
+    mass,
+
+    /**
+     * The speed of one simulation unit in km/s.
+     */
+    velocity,
+
+    /**
+     * The duration of one simulation unit in millions of years.
+     */
+    time,
+
+    // Conversions between simulation units and physical units, for single values and for
+    // position and velocity vectors
+    toKpc: (value: number) => value * length,
+    fromKpc: (value: number) => value / length,
+    toKmPerSecond: (value: number) => value * velocity,
+    fromKmPerSecond: (value: number) => value / velocity,
+    toMyr: (value: number) => value * time,
+    fromMyr: (value: number) => value / time,
+    toSolarMasses: (value: number) => value * mass,
+    fromSolarMasses: (value: number) => value / mass,
+    positionToKpc: (position: Vec3) => position.mul(length),
+    positionFromKpc: (position: Vec3) => position.div(length),
+    velocityToKmPerSecond: (vel: Vec3) => vel.mul(velocity),
+    velocityFromKmPerSecond: (vel: Vec3) => vel.div(velocity),
+
+    /**
+     * Describes a galaxy's core in physical units.
+     * @param galaxy - The galaxy.
+     * @returns Its position in kpc, velocity in km/s and mass in solar masses.
+     */
+    describeGalaxy: (galaxy: Galaxy): PhysicalGalaxy => ({
+      position: galaxy.pos.mul(length),
+      velocity: galaxy.vel.mul(velocity),
+      mass: galaxy.mass * mass,
+    }),
+  };
+};
+
+/**
+ * Rounds a length down to 1, 2 or 5 times a power of ten, for the length of a scale bar.
+ * @param value - The longest the scale bar can be.
+ * @returns The rounded length, or 0 if the value isn't positive.
+ */
+export const roundScaleLength = (value: number) => {
+  if (!(value > 0) || !Number.isFinite(value)) return 0;
+  const power = 10 ** Math.floor(Math.log10(value));
+  const leading = value / power;
+  return (leading >= 5 ? 5 : leading >= 2 ? 2 : 1) * power;
+};
+
+/**
+ * Formats a duration for display, in millions or billions of years.
+ * @param myr - The duration in millions of years.
+ * @returns The duration, such as "350 Myr" or "1.25 Gyr".
+ */
+export const formatMyr = (myr: number) =>
+  Math.abs(myr) >= 1000
+    ? `${(myr / 1000).toFixed(2)} Gyr`
+    : `${myr.toFixed(Math.abs(myr) >= 10 ? 0 : 1)} Myr`;
+
+/**
+ * Formats a length for display, in parsecs or kiloparsecs.
+ * @param kpc - The length in kpc.
+ * @returns The length, such as "500 pc" or "20 kpc".
+ */
+export const formatKpc = (kpc: number) =>
+  Math.abs(kpc) >= 1
+    ? `${Number(kpc.toPrecision(3))} kpc`
+    : `${Number((kpc * 1000).toPrecision(3))} pc`;
@@ -1,4 +1,13 @@
 import { Galaxy, Star } from '../astro';
+import { Vec3 } from '../math';
+
+/**
+ * Anything that moves through the simulation: a star or a galaxy's central mass.
+ */
+export type Body = {
+  pos: Vec3;
+  vel: Vec3;
+};
 
 /**
  * Iterates over all stars in the simulation.
@@ -15,6 +24,18 @@ export const allStars = (
   }
 };
 
+/**
+ * Collects every moving body in the simulation into a single list.
+ * The galaxies come first, in order, followed by all stars in the same order as `allStars`.
+ * @param galaxies - The galaxies to collect bodies from.
+ * @returns The list of bodies.
+ */
+export const allBodies = (galaxies: Galaxy[]): Body[] => {
+  const bodies: Body[] = [...galaxies];
+  allStars(galaxies, (star) => bodies.push(star));
+  return bodies;
+};
+
 /**
  * Counts the total number of stars in the simulation.
  * @param galaxies - The galaxies to count stars in.
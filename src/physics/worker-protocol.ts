@@ -0,0 +1,191 @@
+import { Galaxy, Star } from '../astro';
+import { Vec3 } from '../math';
+import { PhysicsConfig } from './config';
+import { createParticleSimulator } from './particles';
+import { MassProfile } from './profiles';
+import { updateGalaxies } from './simple';
+import { allBodies, starCount } from './util';
+
+/**
+ * The messages passed between a `createWorkerSimulator` on the main thread and the physics
+ * worker that runs the simulation.
+ *
+ * The state of the simulation travels as a single `Float64Array` holding the position and
+ * velocity of every body (galaxies first, then stars, in the same order as `allBodies`).
+ * The array's buffer is transferred rather than copied, and the two sides pass the same
+ * buffers back and forth so that no new memory is needed each frame.
+ */
+
+/**
+ * The parts of a galaxy that the worker needs to know about, other than its state.
+ */
+export type WorkerGalaxy = {
+  rotation: [number, number, number];
+  mass: number;
+  softening?: number;
+  profile?: MassProfile;
+  starMasses: number[];
+};
+
+/**
+ * Sent by the main thread to give the worker a new set of galaxies.
+ */
+export type WorkerInitMessage = {
+  type: 'init';
+  generation: number;
+  galaxies: WorkerGalaxy[];
+  state: Float64Array;
+};
+
+/**
+ * Sent by the main thread to ask the worker for the next step. The worker writes the new
+ * state into `buffer` (or a new array, if it's the wrong size) and sends it back.
+ */
+export type WorkerStepMessage = {
+  type: 'step';
+  generation: number;
+  config: PhysicsConfig;
+  buffer: Float64Array;
+};
+
+export type WorkerRequest = WorkerInitMessage | WorkerStepMessage;
+
+/**
+ * Sent by the worker with the state after a step.
+ */
+export type WorkerStateMessage = {
+  type: 'state';
+  generation: number;
+  buffer: Float64Array;
+};
+
+/**
+ * Sent by the worker if something went wrong.
+ */
+export type WorkerErrorMessage = {
+  type: 'error';
+  generation: number;
+  message: string;
+};
+
+export type WorkerResponse = WorkerStateMessage | WorkerErrorMessage;
+
+/**
+ * Calculates the length of the array needed to hold the state of the galaxies.
+ * @param galaxies - The galaxies.
+ * @returns The number of values in the state array.
+ */
+export const stateLength = (galaxies: Galaxy[]) => (galaxies.length + starCount(galaxies)) * 6;
+
+/**
+ * Copies the position and velocity of every body into an array.
+ * @param galaxies - The galaxies to copy.
+ * @param buffer - The array to copy into. It must be `stateLength(galaxies)` long.
+ */
+export const writeState = (galaxies: Galaxy[], buffer: Float64Array) => {
+  let i = 0;
+  for (const { pos, vel } of allBodies(galaxies)) {
+    buffer[i++] = pos.x;
+    buffer[i++] = pos.y;
+    buffer[i++] = pos.z;
+    buffer[i++] = vel.x;
+    buffer[i++] = vel.y;
+    buffer[i++] = vel.z;
+  }
+};
+
+/**
+ * Sets the position and velocity of every body from an array written by `writeState`.
+ * @param galaxies - The galaxies to update.
+ * @param buffer - The array to read from.
+ */
+export const readState = (galaxies: Galaxy[], buffer: Float64Array) => {
+  let i = 0;
+  for (const body of allBodies(galaxies)) {
+    body.pos = new Vec3(buffer[i], buffer[i + 1], buffer[i + 2]);
+    body.vel = new Vec3(buffer[i + 3], buffer[i + 4], buffer[i + 5]);
+    i += 6;
+  }
+};
+
+/**
+ * Describes the galaxies for a `WorkerInitMessage`.
+ * @param galaxies - The galaxies to describe.
+ * @param generation - Identifies this set of galaxies, so that stale responses can be ignored.
+ * @returns The message.
+ */
+export const createInitMessage = (galaxies: Galaxy[], generation: number): WorkerInitMessage => {
+  const state = new Float64Array(stateLength(galaxies));
+  writeState(galaxies, state);
+  return {
+    type: 'init',
+    generation,
+    galaxies: galaxies.map((galaxy) => ({
+      rotation: [galaxy.rotation.x, galaxy.rotation.y, galaxy.rotation.z],
+      mass: galaxy.mass,
+      softening: galaxy.softening,
+      profile: galaxy.profile,
+      starMasses: galaxy.stars.map((star) => star.mass),
+    })),
+    state,
+  };
+};
+
+/**
+ * Creates the function that handles requests inside the worker.
+ *
+ * The worker keeps its own copy of the galaxies. It uses the fast particle store for the
+ * integrators that support it, and the standard `updateGalaxies` for the rest.
+ * @param post - Sends a response back to the main thread, transferring the given buffers.
+ * @returns The request handler.
+ */
+export const createWorkerHandler = (
+  post: (response: WorkerResponse, transfer: ArrayBuffer[]) => void,
+) => {
+  let galaxies: Galaxy[] = [];
+  const particleSimulator = createParticleSimulator();
+
+  return (request: WorkerRequest) => {
+    try {
+      if (request.type === 'init') {
+        galaxies = request.galaxies.map((description) => {
+          const [x, y, z] = description.rotation;
+          const galaxy = new Galaxy(Vec3.zero(), Vec3.zero(), new Vec3(x, y, z), description.mass);
+          galaxy.softening = description.softening;
+          galaxy.profile = description.profile;
+          galaxy.stars = description.starMasses.map(
+            (mass) => new Star(Vec3.zero(), Vec3.zero(), mass),
+          );
+          return galaxy;
+        });
+        readState(galaxies, request.state);
+        return;
+      }
+
+      const { integrator } = request.config;
+      if (
+        integrator === 'euler' ||
+        integrator === 'symplectic-euler' ||
+        integrator === 'leapfrog'
+      ) {
+        particleSimulator.updateGalaxies(galaxies, request.config);
+      } else {
+        updateGalaxies(galaxies, request.config);
+      }
+
+      const length = stateLength(galaxies);
+      const buffer = request.buffer.length === length ? request.buffer : new Float64Array(length);
+      writeState(galaxies, buffer);
+      post({ type: 'state', generation: request.generation, buffer }, [buffer.buffer]);
+    } catch (error) {
+      post(
+        {
+          type: 'error',
+          generation: request.generation,
+          message: error instanceof Error ? error.message : String(error),
+        },
+        [],
+      );
+    }
+  };
+};
@@ -0,0 +1,85 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Galaxy, Star } from '../astro';
+import { Vec3 } from '../math';
+import { createSimulator } from './events';
+import { createWorkerSimulator } from './worker-simulator';
+import { createWorkerHandler, WorkerResponse } from './worker-protocol';
+
+/**
+ * A worker that runs the real request handler on the main thread, but only passes its
+ * responses on when told to, like a worker that takes longer than a frame.
+ */
+const createSlowWorker = () => {
+  const responses: WorkerResponse[] = [];
+  const listeners: ((event: MessageEvent<WorkerResponse>) => void)[] = [];
+  const handle = createWorkerHandler((response) => responses.push(response));
+  const worker = {
+    postMessage: handle,
+    addEventListener: (type: string, listener: (event: MessageEvent<WorkerResponse>) => void) => {
+      if (type === 'message') listeners.push(listener);
+    },
+    terminate: () => {},
+  };
+  const deliver = () => {
+    for (const data of responses.splice(0)) {
+      listeners.forEach((listener) => listener({ data } as MessageEvent<WorkerResponse>));
+    }
+  };
+  return { worker: worker as unknown as Worker, deliver };
+};
+
+const createGalaxies = () => {
+  const first = new Galaxy(new Vec3(0, 0.3, 0), new Vec3(-1, 0, 0), Vec3.zero(), 1000);
+  first.stars.push(new Star(new Vec3(-1.5, 0, 0), new Vec3(0, 1, 0)));
+  const second = new Galaxy(new Vec3(0, -0.3, 0), new Vec3(1, 0, 0), Vec3.zero(), 1000);
+  return [first, second];
+};
+
+describe('createWorkerSimulator', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('reports whether a new state from the worker was applied', () => {
+    vi.stubGlobal('Worker', class {});
+    const { worker, deliver } = createSlowWorker();
+    const simulator = createWorkerSimulator({ createWorker: () => worker });
+    const galaxies = createGalaxies();
+    const start = galaxies[0].pos.x;
+
+    // The first call only starts the worker on the galaxies
+    expect(simulator.updateGalaxies(galaxies)).toBe(false);
+    expect(galaxies[0].pos.x).toBe(start);
+    // Still waiting for the worker
+    expect(simulator.updateGalaxies(galaxies)).toBe(false);
+    deliver();
+    expect(simulator.updateGalaxies(galaxies)).toBe(true);
+    expect(galaxies[0].pos.x).not.toBe(start);
+  });
+
+  it('only lets steps that happened count', () => {
+    vi.stubGlobal('Worker', class {});
+    const { worker, deliver } = createSlowWorker();
+    const simulator = createSimulator({
+      simulator: createWorkerSimulator({ createWorker: () => worker }),
+    });
+    const after = vi.fn();
+    simulator.events.on('after-step', after);
+    const galaxies = createGalaxies();
+
+    expect(simulator.updateGalaxies(galaxies)).toBe(false);
+    deliver();
+    expect(simulator.updateGalaxies(galaxies)).toBe(true);
+    expect(simulator.updateGalaxies(galaxies)).toBe(false);
+    expect(simulator.step).toBe(1);
+    expect(after).toHaveBeenCalledTimes(1);
+  });
+
+  it('runs on the main thread, counting every step, without Web Workers', () => {
+    const simulator = createWorkerSimulator();
+    const galaxies = createGalaxies();
+    const start = galaxies[0].pos.x;
+    expect(simulator.updateGalaxies(galaxies)).toBe(true);
+    expect(galaxies[0].pos.x).not.toBe(start);
+  });
+});
@@ -0,0 +1,168 @@
+import { Galaxy, Star } from '../astro';
+import { PhysicsConfig, resolvePhysicsConfig } from './config';
+import { updateGalaxies } from './simple';
+import {
+  createInitMessage,
+  readState,
+  stateLength,
+  WorkerRequest,
+  WorkerResponse,
+} from './worker-protocol';
+import PhysicsWorker from './worker?worker&inline';
+
+/**
+ * Options for the worker simulator.
+ */
+export type WorkerSimulatorOptions = {
+  // Creates the worker. Defaults to the bundled physics worker.
+  createWorker?: () => Worker;
+};
+
+/**
+ * A simulator that runs in a Web Worker, as created by `createWorkerSimulator`.
+ */
+export type WorkerSimulator = ReturnType<typeof createWorkerSimulator>;
+
+/**
+ * Creates a simulator that runs the physics in a Web Worker, off the main thread.
+ *
+ * Calculating the physics for thousands of stars can take most of a frame, leaving the page
+ * janky and unresponsive. This simulator hands the work to a background thread instead. Each
+ * call to `updateGalaxies` applies the latest state calculated by the worker, and asks it to
+ * calculate the next one, so the galaxies on the main thread are always one step behind the
+ * worker. If the worker hasn't finished by the next frame, the galaxies simply don't move
+ * that frame rather than holding up the page, and `updateGalaxies` returns false so that
+ * the caller doesn't count a step that didn't happen. The same happens on the first call
+ * after galaxies or stars are added or removed, while the worker starts on the new set.
+ *
+ * The worker keeps its own copy of the galaxies, which is replaced whenever galaxies or stars
+ * are added or removed on the main thread. Other changes made on the main thread (such as
+ * moving a galaxy) are overwritten by the next state from the worker.
+ *
+ * If Web Workers aren't available, or the worker fails, the simulator falls back to running
+ * the standard `updateGalaxies` on the main thread.
+ * @param options - The worker simulator options.
+ * @returns The simulator.
+ */
+export const createWorkerSimulator = (options: WorkerSimulatorOptions = {}) => {
+  const { createWorker = () => new PhysicsWorker() } = options;
+
+  let worker: Worker | null = null;
+  let failed = false;
+
+  // Each new set of galaxies gets a new generation, so that late responses about an old set
+  // can be ignored.
+  let generation = 0;
+  let attachedGalaxies: Galaxy[] = [];
+  let attachedStars: Star[][] = [];
+  let attachedStarCounts: number[] = [];
+
+  // Whether we are waiting for the worker to finish a step, the latest state it has sent
+  // us, and a spare buffer we can send back for it to reuse.
+  let pending = false;
+  let latest: Float64Array | null = null;
+  let spare: Float64Array | null = null;
+
+  const fail = () => {
+    failed = true;
+    worker?.terminate();
+    worker = null;
+  };
+
+  const start = () => {
+    if (typeof Worker === 'undefined') {
+      failed = true;
+      return;
+    }
+    try {
+      worker = createWorker();
+    } catch {
+      failed = true;
+      return;
+    }
+    worker.addEventListener('message', (event: MessageEvent<WorkerResponse>) => {
+      const response = event.data;
+      if (response.generation !== generation) return;
+      if (response.type === 'error') {
+        fail();
+        return;
+      }
+      latest = response.buffer;
+      pending = false;
+    });
+    worker.addEventListener('error', fail);
+  };
+
+  const post = (request: WorkerRequest, transfer: ArrayBuffer[]) => {
+    worker!.postMessage(request, transfer);
+  };
+
+  const isAttachedTo = (galaxies: Galaxy[]) =>
+    galaxies.length === attachedGalaxies.length &&
+    galaxies.every(
+      (galaxy, i) =>
+        galaxy === attachedGalaxies[i] &&
+        galaxy.stars === attachedStars[i] &&
+        galaxy.stars.length === attachedStarCounts[i],
+    );
+
+  const attach = (galaxies: Galaxy[]) => {
+    generation++;
+    attachedGalaxies = [...galaxies];
+    attachedStars = galaxies.map((galaxy) => galaxy.stars);
+    attachedStarCounts = galaxies.map((galaxy) => galaxy.stars.length);
+    pending = false;
+    latest = null;
+    spare = null;
+    const message = createInitMessage(galaxies, generation);
+    post(message, [message.state.buffer]);
+  };
+
+  return {
+    /**
+     * Applies the latest state from the worker, and asks it for the next one.
+     * @param galaxies - The galaxies to update. Modified in place.
+     * @param config - The physics parameters to use.
+     * @returns True if a new state was applied, or false if the worker hadn't finished one.
+     */
+    updateGalaxies: (galaxies: Galaxy[], config: Partial<PhysicsConfig> = {}) => {
+      if (!worker && !failed) {
+        start();
+      }
+      if (failed) {
+        updateGalaxies(galaxies, config);
+        return true;
+      }
+
+      if (!isAttachedTo(galaxies)) {
+        attach(galaxies);
+      }
+
+      const applied = latest !== null;
+      if (latest) {
+        readState(galaxies, latest);
+        spare = latest;
+        latest = null;
+      }
+
+      if (!pending) {
+        const length = stateLength(galaxies);
+        const buffer = spare && spare.length === length ? spare : new Float64Array(length);
+        spare = null;
+        pending = true;
+        post({ type: 'step', generation, config: resolvePhysicsConfig(config), buffer }, [
+          buffer.buffer,
+        ]);
+      }
+      return applied;
+    },
+
+    /**
+     * Stops the worker. The simulator falls back to running on the main thread if it is
+     * used again afterwards.
+     */
+    terminate: () => {
+      fail();
+    },
+  };
+};
@@ -0,0 +1,10 @@
+/**
+ * The entry point of the physics worker used by `createWorkerSimulator`.
+ */
+import { createWorkerHandler, WorkerRequest } from './worker-protocol';
+
+const handle = createWorkerHandler((response, transfer) =>
+  self.postMessage(response, { transfer }),
+);
+
+self.addEventListener('message', (event: MessageEvent<WorkerRequest>) => handle(event.data));
@@ -1,16 +1,63 @@
 import { css, html, LitElement, PropertyValues } from 'lit';
 import { customElement, query, property } from 'lit/decorators.js';
 import { Galaxy } from '../astro';
-import { createRandomGalaxy, updateGalaxies } from '../physics/simple';
-import { Matrix3x3, Vec3 } from '../math';
+import { createRandomGalaxy, Simulator, updateGalaxies } from '../physics/simple';
+import { DEFAULT_PHYSICS_CONFIG, PhysicsConfig } from '../physics/config';
+import { analyseBinding, BindingAnalysis } from '../physics/binding';
+import {
+  createEventBus,
+  createSimulator,
+  EventSimulator,
+  SIMULATION_EVENTS,
+  SimulationEventMap,
+  SimulatorPlugin,
+} from '../physics/events';
+import { coreGravity, createForceModel, ForceTerm } from '../physics/forces';
+import { dynamicalFriction } from '../physics/friction';
+import {
+  addGas,
+  createGasSimulator,
+  DEFAULT_GAS_PROPERTIES,
+  isGas,
+  isYoungStar,
+} from '../physics/gas';
+import {
+  checkEscapeAction,
+  createHealthGuard,
+  HealthCheckResult,
+  HealthGuard,
+  HealthIssue,
+} from '../physics/guard';
+import { getIntegrator, IntegratorName } from '../physics/integrators';
+import { GadgetOptions, importParticles } from '../physics/interop';
+import { MergeEvent } from '../physics/mergers';
+import { MorphologyName, resolveMorphology } from '../physics/morphology';
+import { createMassProfile, MassProfile } from '../physics/profiles';
+import { measureDeviation, StateDeviation } from '../physics/reversibility';
+import { createRecorder, RecordedFrame, Recorder } from '../physics/recorder';
+import { createScenario, resolveScenario, ScenarioName } from '../physics/scenarios';
+import {
+  createSnapshot,
+  decodeSnapshot,
+  RestoredSnapshot,
+  restoreSnapshot,
+  Snapshot,
+  snapshotFromJSON,
+} from '../physics/snapshot';
+import { checkSofteningKernel, SofteningKernel } from '../physics/softening';
+import {
+  createUnitSystem,
+  formatKpc,
+  formatMyr,
+  roundScaleLength,
+  UnitSystem,
+} from '../physics/units';
+import { createSeededRandom, Matrix3x3, RandomSource, Vec3 } from '../math';
 import { allStars } from '../physics/util';
-
-export interface Simulator {
-  updateGalaxies: (galaxies: Galaxy[]) => void;
-}
+import { createWorkerSimulator, WorkerSimulator } from '../physics/worker-simulator';
 
 export interface GalaxyFactory {
-  createRandomGalaxy: () => Galaxy;
+  createRandomGalaxy: (config?: PhysicsConfig) => Galaxy;
 }
 
 @customElement('galaxy-simulation')
@@ -33,17 +80,156 @@ export class GalaxySimulation extends LitElement {
   @property({ type: Object, attribute: 'galaxy-factory' })
   galaxyFactory!: GalaxyFactory;
 
+  @property({ attribute: false })
+  plugins: SimulatorPlugin[] = [];
+
+  @property({ attribute: false })
+  forces: ForceTerm[] = [];
+
+  @property({ type: Number, attribute: 'seed' })
+  seed?: number;
+
+  @property({ type: Number, attribute: 'time-step' })
+  timeStep = DEFAULT_PHYSICS_CONFIG.timeStep;
+
+  @property({ type: Number, attribute: 'gravitational-constant' })
+  gravitationalConstant = DEFAULT_PHYSICS_CONFIG.gravitationalConstant;
+
+  @property({ type: String, attribute: 'integrator' })
+  integrator: IntegratorName = DEFAULT_PHYSICS_CONFIG.integrator;
+
+  @property({ type: Number, attribute: 'softening' })
+  softeningLength = DEFAULT_PHYSICS_CONFIG.softeningLength;
+
+  @property({ type: String, attribute: 'softening-kernel' })
+  softeningKernel: SofteningKernel = DEFAULT_PHYSICS_CONFIG.softeningKernel;
+
+  @property({ type: String, attribute: 'mass-profile' })
+  massProfile: MassProfile['type'] = 'point';
+
+  @property({ type: String, attribute: 'morphology' })
+  morphology?: MorphologyName;
+
+  @property({ type: String, attribute: 'scenario' })
+  scenario?: ScenarioName;
+
+  @property({ type: Number, attribute: 'gas-fraction' })
+  gasFraction = 0;
+
+  @property({ type: Number, attribute: 'star-formation-rate' })
+  starFormationRate = DEFAULT_GAS_PROPERTIES.starFormationRate;
+
+  @property({ type: Boolean, attribute: 'adaptive' })
+  adaptive = DEFAULT_PHYSICS_CONFIG.adaptive;
+
+  @property({ type: Number, attribute: 'adaptive-tolerance' })
+  adaptiveTolerance = DEFAULT_PHYSICS_CONFIG.adaptiveTolerance;
+
+  @property({ type: Number, attribute: 'min-time-step' })
+  minTimeStep = DEFAULT_PHYSICS_CONFIG.minTimeStep;
+
+  @property({ type: Number, attribute: 'max-time-step' })
+  maxTimeStep = DEFAULT_PHYSICS_CONFIG.maxTimeStep;
+
+  @property({ type: Boolean, attribute: 'adaptive-stars' })
+  adaptiveStars = DEFAULT_PHYSICS_CONFIG.adaptiveStars;
+
+  @property({ type: Boolean, attribute: 'mergers' })
+  mergers = false;
+
+  @property({ type: Number, attribute: 'capture-radius' })
+  captureRadius = 0.1;
+
+  @property({ type: Boolean, attribute: 'dynamical-friction' })
+  dynamicalFriction = false;
+
+  @property({ type: Number, attribute: 'coulomb-logarithm' })
+  coulombLogarithm = 3;
+
+  @property({ type: Number, attribute: 'binding-interval' })
+  bindingInterval = 0;
+
+  @property({ type: Boolean, attribute: 'worker' })
+  useWorker = false;
+
+  @property({ type: Number, attribute: 'escape-radius' })
+  escapeRadius = 0;
+
+  @property({ type: String, attribute: 'escape-action' })
+  escapeAction: 'cull' | 'freeze' = 'cull';
+
+  @property({ type: Number, attribute: 'reset-after' })
+  resetAfter = 1500;
+
+  @property({ type: Boolean, attribute: 'record' })
+  record = false;
+
+  @property({ type: Number, attribute: 'record-interval' })
+  recordInterval = 5;
+
+  @property({ type: Number, attribute: 'record-length' })
+  recordLength = 300;
+
+  @property({ type: Boolean, attribute: 'paused' })
+  paused = false;
+
+  @property({ type: Number, attribute: 'playback-speed' })
+  playbackSpeed = 1;
+
+  @property({ type: Boolean, attribute: 'reversed' })
+  reversed = false;
+
+  @property({ type: Boolean, attribute: 'show-units' })
+  showUnits = false;
+
+  @property({ type: Number, attribute: 'length-unit' })
+  lengthUnit = 10;
+
+  @property({ type: Number, attribute: 'mass-unit' })
+  massUnit = 1e8;
+
+  @property({ type: Boolean, attribute: 'allow-drop' })
+  allowDrop = false;
+
   @query('#galaxyCanvas')
   _canvas!: HTMLCanvasElement;
 
-  _simulator: Simulator | null = null;
+  _simulator: EventSimulator | null = null;
   _galaxyFactory: GalaxyFactory | null = null;
+  _workerSimulator: WorkerSimulator | null = null;
   _galaxies: Galaxy[] = [];
   _ctx: CanvasRenderingContext2D | null = null;
   _animationFrameId: number | null = null;
   _resizeObserver!: ResizeObserver;
   _step = 0;
   _rotation_vector: Vec3 | null = null;
+  _random: RandomSource = Math.random;
+  _recorder: Recorder | null = null;
+  _guard: HealthGuard = createHealthGuard({ onError: (issue) => this._reportHealthIssue(issue) });
+
+  // While playing back a recording, the frame being shown and its position in the recording.
+  // The position can be fractional, so that playback can run slower than one frame per step.
+  _playback: RestoredSnapshot | null = null;
+  _playbackPosition = 0;
+
+  // The state at step 0, which a reversed simulation should return to
+  _origin: Snapshot | null = null;
+
+  // Announces what happens in the simulation. Every event is also dispatched as a DOM event.
+  readonly events = createEventBus<SimulationEventMap>();
+
+  // The latest binding analysis, if `binding-interval` is set
+  bindingAnalysis: BindingAnalysis | null = null;
+
+  // How far a reversed simulation was from its starting state when it got back to step 0
+  reversalDeviation: StateDeviation | null = null;
+
+  // The latest health check that found the simulation had blown up, if any
+  healthError: HealthCheckResult | null = null;
+
+  // The physical units, or null if the unit attributes or the gravitational constant aren't
+  // valid for them
+  _units: UnitSystem | null = null;
 
   static styles = css`
     :host {
@@ -58,6 +244,14 @@ export class GalaxySimulation extends LitElement {
     }
   `;
 
+  constructor() {
+    super();
+    this.events.on('galaxy-merge', (event) => this._handleMerge(event));
+    for (const name of SIMULATION_EVENTS) {
+      this.events.on(name, (detail) => this.dispatchEvent(new CustomEvent(name, { detail })));
+    }
+  }
+
   render() {
     return html`<canvas id="galaxyCanvas"></canvas>`;
   }
@@ -67,20 +261,130 @@ export class GalaxySimulation extends LitElement {
     this._resizeObserver = new ResizeObserver(() => this._handleResize());
     this._resizeObserver.observe(this);
     this._handleResize();
+    this.addEventListener('dragover', this._handleDragOver);
+    this.addEventListener('drop', this._handleDrop);
 
+    this._resetRandom();
     this._initialiseGalaxies();
     this._updateRotation();
     this._startAnimation();
   }
 
+  willUpdate(changedProperties: PropertyValues<GalaxySimulation>) {
+    this._checkAttribute(
+      changedProperties,
+      'integrator',
+      getIntegrator,
+      DEFAULT_PHYSICS_CONFIG.integrator,
+    );
+    this._checkAttribute(
+      changedProperties,
+      'softeningKernel',
+      checkSofteningKernel,
+      DEFAULT_PHYSICS_CONFIG.softeningKernel,
+    );
+    this._checkAttribute(
+      changedProperties,
+      'morphology',
+      (name) => name && resolveMorphology(name),
+      undefined,
+    );
+    this._checkAttribute(
+      changedProperties,
+      'scenario',
+      (name) => name && resolveScenario(name),
+      undefined,
+    );
+    this._checkAttribute(changedProperties, 'massProfile', createMassProfile, 'point');
+    this._checkAttribute(changedProperties, 'escapeAction', checkEscapeAction, 'cull');
+  }
+
+  /**
+   * Checks the new value of a property that must name something, such as an integrator. An
+   * unknown name would otherwise only fail once the simulation uses it, inside the animation
+   * loop, stopping it for good. Instead, the property goes back to its previous value (or
+   * the default, if that isn't valid either) and an `attribute-error` event is dispatched.
+   * @param changedProperties - The properties that have changed in this update.
+   * @param name - The property to check.
+   * @param validate - Throws an error if a value isn't valid.
+   * @param fallback - The value to use if the previous value isn't valid either.
+   */
+  _checkAttribute<K extends keyof GalaxySimulation>(
+    changedProperties: PropertyValues<GalaxySimulation>,
+    name: K,
+    validate: (value: GalaxySimulation[K]) => unknown,
+    fallback: GalaxySimulation[K],
+  ) {
+    const errorFor = (value: GalaxySimulation[K]) => {
+      try {
+        validate(value);
+        return null;
+      } catch (error) {
+        return error;
+      }
+    };
+    const value = this[name];
+    const error = changedProperties.has(name) ? errorFor(value) : null;
+    if (!error) return;
+
+    const previous = changedProperties.get(name) as GalaxySimulation[K];
+    (this as GalaxySimulation)[name] = errorFor(previous) ? fallback : previous;
+    // Going back to the previous value isn't a change
+    if (this[name] === previous) {
+      changedProperties.delete(name);
+    }
+    this.dispatchEvent(
+      new CustomEvent('attribute-error', { detail: { property: name, value, error } }),
+    );
+  }
+
   updated(changedProperties: PropertyValues) {
+    if (changedProperties.has('seed')) {
+      this._resetRandom();
+    }
+    if (
+      changedProperties.has('record') ||
+      changedProperties.has('recordInterval') ||
+      changedProperties.has('recordLength')
+    ) {
+      this._updateRecorder();
+    }
+    if (changedProperties.has('escapeRadius') || changedProperties.has('escapeAction')) {
+      this._updateGuard();
+    }
+    if (
+      changedProperties.has('lengthUnit') ||
+      changedProperties.has('massUnit') ||
+      changedProperties.has('gravitationalConstant')
+    ) {
+      this._updateUnits();
+    }
     if (
+      changedProperties.has('seed') ||
+      changedProperties.has('gravitationalConstant') ||
+      changedProperties.has('softeningLength') ||
+      changedProperties.has('softeningKernel') ||
+      changedProperties.has('massProfile') ||
+      changedProperties.has('morphology') ||
+      changedProperties.has('scenario') ||
+      changedProperties.has('gasFraction') ||
+      changedProperties.has('starFormationRate') ||
       changedProperties.has('galaxyCount') ||
       changedProperties.has('maxGalaxyCount') ||
       changedProperties.has('simulator') ||
       changedProperties.has('galaxyFactory')
     ) {
       this._initialiseGalaxies();
+    } else if (
+      changedProperties.has('useWorker') ||
+      changedProperties.has('mergers') ||
+      changedProperties.has('captureRadius') ||
+      changedProperties.has('plugins') ||
+      changedProperties.has('forces') ||
+      changedProperties.has('dynamicalFriction') ||
+      changedProperties.has('coulombLogarithm')
+    ) {
+      this._updateSimulator();
     }
   }
 
@@ -88,6 +392,63 @@ export class GalaxySimulation extends LitElement {
     super.disconnectedCallback();
     this._stopAnimation();
     this._resizeObserver.disconnect();
+    this._stopWorker();
+    this._simulator?.dispose();
+  }
+
+  /**
+   * If a seed is set, all randomness used to create galaxies comes from a seeded generator so
+   * that the same seed always produces the same universe. Otherwise we use `Math.random`.
+   */
+  _resetRandom() {
+    this._random =
+      this.seed === undefined || this.seed === null || Number.isNaN(this.seed)
+        ? Math.random
+        : createSeededRandom(this.seed);
+  }
+
+  /**
+   * The physics config built from the component's attributes. This is passed to both the
+   * galaxy factory and the simulator so that they agree on the laws of physics.
+   */
+  get physicsConfig(): PhysicsConfig {
+    return {
+      timeStep: this.timeStep,
+      gravitationalConstant: this.gravitationalConstant,
+      integrator: this.integrator,
+      softeningLength: this.softeningLength,
+      softeningKernel: this.softeningKernel,
+      adaptive: this.adaptive,
+      adaptiveTolerance: this.adaptiveTolerance,
+      minTimeStep: this.minTimeStep,
+      maxTimeStep: this.maxTimeStep,
+      adaptiveStars: this.adaptiveStars,
+    };
+  }
+
+  /**
+   * The physical units of the simulation, built from the `length-unit` and `mass-unit`
+   * attributes and the gravitational constant, or null if they can't be (for example if the
+   * gravitational constant isn't positive).
+   */
+  get units(): UnitSystem | null {
+    return this._units;
+  }
+
+  /**
+   * Builds the physical units when the attributes they depend on change, rather than every
+   * frame. Values that don't give a unit system leave it null, which hides the `show-units`
+   * overlay until they are fixed.
+   */
+  _updateUnits() {
+    try {
+      this._units = createUnitSystem(
+        { length: this.lengthUnit, mass: this.massUnit },
+        { gravitationalConstant: this.gravitationalConstant },
+      );
+    } catch {
+      this._units = null;
+    }
   }
 
   /**
@@ -104,7 +465,7 @@ export class GalaxySimulation extends LitElement {
     ) {
       const speed = Number(this.rotation); // speed is degrees per second
       const speedInRadians = speed * (Math.PI / 180);
-      this._rotation_vector = Vec3.random(speedInRadians);
+      this._rotation_vector = Vec3.random(speedInRadians, this._random);
     } else if (typeof this.rotation === 'string') {
       const [x, y, z] = (this.rotation as string).split(',').map(Number);
       const x_rad = x * (Math.PI / 180);
@@ -114,35 +475,381 @@ export class GalaxySimulation extends LitElement {
     }
   }
 
+  /**
+   * Picks the simulator to use. A custom simulator always wins. Otherwise the physics runs on
+   * the main thread, or in a Web Worker if the `worker` attribute is set. The worker is created
+   * the first time it's needed, and kept for as long as the attribute is set. Extra forces,
+   * including dynamical friction, are JavaScript functions that can't be sent to the worker,
+   * so they run on the main thread, as does gas, which is changed after every step.
+   *
+   * Whichever it is, it is wrapped by `createSimulator`, which handles mergers, runs the
+   * plugins and announces events on `events`.
+   */
+  _updateSimulator() {
+    const forces = this.dynamicalFriction
+      ? [dynamicalFriction({ coulombLogarithm: this.coulombLogarithm }), ...this.forces]
+      : this.forces;
+
+    const hasGas = this.gasFraction > 0 || this._galaxies.some((galaxy) => galaxy.gas);
+
+    let simulator: Simulator;
+    if (this.simulator) {
+      simulator = this.simulator;
+    } else if (forces.length > 0 || hasGas) {
+      const model = createForceModel([coreGravity(), ...forces]);
+      simulator = hasGas ? createGasSimulator({ random: () => this._random() }, model) : model;
+    } else if (this.useWorker) {
+      this._workerSimulator = this._workerSimulator || createWorkerSimulator();
+      simulator = this._workerSimulator;
+    } else {
+      simulator = {
+        updateGalaxies: updateGalaxies,
+      };
+    }
+    if (simulator !== this._workerSimulator) {
+      this._stopWorker();
+    }
+
+    this._simulator?.dispose();
+    this._simulator = createSimulator({
+      simulator,
+      events: this.events,
+      plugins: this.plugins,
+      mergers: this.mergers ? { captureRadius: this.captureRadius } : undefined,
+      step: this._step,
+      galaxies: this._galaxies,
+    });
+  }
+
+  _stopWorker() {
+    if (this._workerSimulator) {
+      this._workerSimulator.terminate();
+      this._workerSimulator = null;
+    }
+  }
+
+  /**
+   * Starts a new recording, or stops recording, to match the `record` attribute. The current
+   * state is the first frame of the new recording.
+   */
+  _updateRecorder() {
+    this._playback = null;
+    this._recorder = this.record
+      ? createRecorder({ interval: this.recordInterval, capacity: this.recordLength })
+      : null;
+    this._recorder?.record(this._galaxies, this.physicsConfig, this._step);
+  }
+
+  /**
+   * Creates a new health guard to match the `escape-radius` and `escape-action` attributes.
+   * It saves a healthy state to roll back to at the next step.
+   */
+  _updateGuard() {
+    this._guard = createHealthGuard({
+      escapeRadius: this.escapeRadius > 0 ? this.escapeRadius : Infinity,
+      escapeAction: this.escapeAction,
+      onError: (issue) => this._reportHealthIssue(issue),
+    });
+  }
+
+  /**
+   * Dispatches a `simulation-error` event for a problem the health guard found, whether a
+   * body that is no longer finite or a star beyond the `escape-radius`.
+   */
+  _reportHealthIssue(issue: HealthIssue) {
+    this.dispatchEvent(new CustomEvent('simulation-error', { detail: issue }));
+  }
+
   _initialiseGalaxies() {
-    this._simulator = this.simulator || {
-      updateGalaxies: updateGalaxies,
-    };
+    const gas =
+      this.gasFraction > 0
+        ? { fraction: this.gasFraction, starFormationRate: this.starFormationRate }
+        : undefined;
     this._galaxyFactory = this.galaxyFactory || {
-      createRandomGalaxy: () =>
-        createRandomGalaxy({
-          minStarCount: 700,
-          maxStarCount: 1000,
-          minGalaxyRadius: 0.5,
-          maxGalaxyRadius: 1.5,
-        }),
+      createRandomGalaxy: (config) =>
+        createRandomGalaxy(
+          {
+            minStarCount: 700,
+            maxStarCount: 1000,
+            minGalaxyRadius: 0.5,
+            maxGalaxyRadius: 1.5,
+            profile: createMassProfile(this.massProfile),
+            morphology: this.morphology,
+            gas,
+            random: this._random,
+          },
+          config,
+        ),
     };
 
-    const actualGalaxyCount = Math.floor(
-      Math.random() * (this.maxGalaxyCount - this.galaxyCount) + this.galaxyCount,
-    );
+    const config = this.physicsConfig;
+
+    // A scenario sets up a particular encounter. Otherwise we create random galaxies.
+    if (this.scenario) {
+      const randomHue = this._random() * 360;
+      this._galaxies = createScenario(this.scenario, config, this._random);
+      this._galaxies.forEach((galaxy, i) => {
+        galaxy.data.hue = randomHue + (i * 360) / this._galaxies.length;
+        galaxy.data.color = `hsl(${galaxy.data.hue}, 50%, 80%)`;
+        if (gas) addGas(galaxy, gas);
+      });
+    } else {
+      const actualGalaxyCount = Math.floor(
+        this._random() * (this.maxGalaxyCount - this.galaxyCount) + this.galaxyCount,
+      );
 
-    const randomHue = Math.random() * 360;
-    const offset = 360 / actualGalaxyCount;
+      const randomHue = this._random() * 360;
+      const offset = 360 / actualGalaxyCount;
 
-    this._galaxies = [];
-    for (let i = 0; i < actualGalaxyCount; i++) {
-      const galaxy = this._galaxyFactory.createRandomGalaxy();
-      galaxy.data.color = `hsl(${randomHue + i * offset}, 50%, 80%)`;
-      this._galaxies.push(galaxy);
+      this._galaxies = [];
+      for (let i = 0; i < actualGalaxyCount; i++) {
+        const galaxy = this._galaxyFactory.createRandomGalaxy(config);
+        galaxy.data.hue = randomHue + i * offset;
+        galaxy.data.color = `hsl(${galaxy.data.hue}, 50%, 80%)`;
+        this._galaxies.push(galaxy);
+      }
     }
 
     this._step = 0;
+    // Now that the galaxies exist, the simulator can tell whether they have gas
+    this._updateSimulator();
+    this.bindingAnalysis = null;
+    this._playback = null;
+    this._recorder?.clear();
+    this._recorder?.record(this._galaxies, config, this._step);
+    this._resetOrigin();
+    this._guard.reset();
+    this.healthError = null;
+    this._simulator?.reset(this._galaxies, config, this._step);
+  }
+
+  /**
+   * Remembers the state at step 0, so that a reversed simulation can be compared with it.
+   * Only a simulation that starts at step 0 has an origin to return to.
+   */
+  _resetOrigin() {
+    this._origin = this._step === 0 ? createSnapshot(this._galaxies, this.physicsConfig) : null;
+    this.reversalDeviation = null;
+  }
+
+  /**
+   * Saves the state of the simulation being shown, which is a recorded frame during
+   * playback. Pass the snapshot to `resumeFromSnapshot` to
+   * carry on from this point later, or save it with `snapshotToJSON` or `encodeSnapshot`.
+   * @returns The snapshot.
+   */
+  exportSnapshot(): Snapshot {
+    const { galaxies, step } = this._playback ?? { galaxies: this._galaxies, step: this._step };
+    return createSnapshot(galaxies, this.physicsConfig, step);
+  }
+
+  /**
+   * Replaces the simulation with one saved in a snapshot. The component's physics
+   * attributes are set from the snapshot's config, so that it carries on exactly as before.
+   * @param snapshot - The snapshot to resume from.
+   * @returns A promise that resolves once the simulation has been replaced.
+   * @throws Error if the snapshot isn't valid
+   */
+  async resumeFromSnapshot(snapshot: Snapshot) {
+    const { galaxies, config, step } = restoreSnapshot(snapshot);
+
+    // The physics config uses the same names as the component's properties. Changing them
+    // creates new galaxies, so we wait for that to happen before putting ours in place.
+    this.timeStep = config.timeStep;
+    this.gravitationalConstant = config.gravitationalConstant;
+    this.integrator = config.integrator;
+    this.softeningLength = config.softeningLength;
+    this.softeningKernel = config.softeningKernel;
+    this.adaptive = config.adaptive;
+    this.adaptiveTolerance = config.adaptiveTolerance;
+    this.minTimeStep = config.minTimeStep;
+    this.maxTimeStep = config.maxTimeStep;
+    this.adaptiveStars = config.adaptiveStars;
+    await this.updateComplete;
+
+    this._loadGalaxies(galaxies, step);
+  }
+
+  /**
+   * Replaces the simulation with one loaded from a file. Snapshots (JSON or binary) are
+   * resumed with `resumeFromSnapshot`, and CSV, NumPy and Gadget files are imported with
+   * `importParticles`, keeping the current physics attributes.
+   * @param file - The file, for example from a file input or drag and drop.
+   * @param gadget - The options for Gadget files, such as which particle type is the cores.
+   * @returns A promise that resolves once the simulation has been replaced.
+   * @throws Error if the file can't be read
+   */
+  async importFile(file: Blob, gadget: GadgetOptions = {}) {
+    const buffer = await file.arrayBuffer();
+    const start = new TextDecoder().decode(buffer.slice(0, 16)).trimStart();
+    if (start.startsWith('GXSN')) {
+      await this.resumeFromSnapshot(decodeSnapshot(buffer));
+    } else if (start.startsWith('{')) {
+      await this.resumeFromSnapshot(snapshotFromJSON(new TextDecoder().decode(buffer)));
+    } else {
+      this._loadGalaxies(importParticles(buffer, this.physicsConfig, gadget), 0);
+    }
+  }
+
+  /**
+   * Replaces the simulation's galaxies, starting a new recording from them.
+   */
+  _loadGalaxies(galaxies: Galaxy[], step: number) {
+    this._galaxies = galaxies;
+    this._step = step;
+    // The new galaxies may have gas, which needs simulating
+    this._updateSimulator();
+    this.bindingAnalysis = null;
+    this._playback = null;
+    this._recorder?.clear();
+    this._recorder?.record(this._galaxies, this.physicsConfig, this._step);
+    this._resetOrigin();
+    this._guard.reset();
+    this.healthError = null;
+    this._simulator?.reset(this._galaxies, this.physicsConfig, this._step);
+  }
+
+  _handleDragOver = (event: DragEvent) => {
+    if (this.allowDrop) {
+      // Without this the browser won't let the file be dropped here
+      event.preventDefault();
+    }
+  };
+
+  /**
+   * Imports a file dropped onto the element, if the `allow-drop` attribute is set. A
+   * `galaxy-import` event is dispatched once it has loaded, or a `galaxy-import-error`
+   * event if it couldn't be read.
+   */
+  _handleDrop = (event: DragEvent) => {
+    const file = event.dataTransfer?.files[0];
+    if (!this.allowDrop || !file) return;
+    event.preventDefault();
+    this.importFile(file).then(
+      () => this.dispatchEvent(new CustomEvent('galaxy-import', { detail: { file } })),
+      (error) => this.dispatchEvent(new CustomEvent('galaxy-import-error', { detail: error })),
+    );
+  };
+
+  /**
+   * The galaxies being shown: a recorded frame during playback, otherwise the live
+   * simulation. Pass them to `toCSV`, `toNpy` or `toGadget` to export them.
+   */
+  get galaxies(): Galaxy[] {
+    return this._playback ? this._playback.galaxies : this._galaxies;
+  }
+
+  /**
+   * The frames recorded so far, oldest first, if the `record` attribute is set.
+   */
+  get recordedFrames(): readonly RecordedFrame[] {
+    return this._recorder?.frames ?? [];
+  }
+
+  /**
+   * The step being shown: a recorded step during playback, otherwise the live simulation's.
+   */
+  get currentStep() {
+    return this._playback ? this._playback.step : this._step;
+  }
+
+  /**
+   * Whether a recording is being played back, rather than the live simulation shown.
+   */
+  get isPlayingBack() {
+    return this._playback !== null;
+  }
+
+  /**
+   * Shows the recorded frame at or just before a step. While not paused, playback carries
+   * on from there at `playback-speed` frames per animation frame.
+   * @param step - The step to show.
+   * @throws Error if nothing has been recorded
+   */
+  seek(step: number) {
+    if (!this._recorder || this._recorder.frames.length === 0) {
+      throw new Error('There is no recording to seek in. Set the record attribute first.');
+    }
+    this._showFrame(Math.max(0, this._recorder.frameIndex(step)));
+  }
+
+  /**
+   * Pauses and moves one frame forward. At the end of a recording this returns to the live
+   * simulation, which then advances by one step each time.
+   */
+  stepForward() {
+    this.paused = true;
+    if (!this._playback) {
+      this._stepSimulation();
+    } else if (this._playbackPosition < this._recorder!.frames.length - 1) {
+      this._showFrame(Math.floor(this._playbackPosition) + 1);
+    } else {
+      this.returnToLive();
+    }
+  }
+
+  /**
+   * Pauses and moves one recorded frame back.
+   */
+  stepBack() {
+    this.paused = true;
+    if (!this._recorder) return;
+    const index = this._playback
+      ? Math.floor(this._playbackPosition) - 1
+      : this._recorder.frameIndex(this._step - 1);
+    if (index >= 0) {
+      this._showFrame(index);
+    }
+  }
+
+  /**
+   * Stops playing back, and shows the live simulation where it left off.
+   */
+  returnToLive() {
+    this._playback = null;
+  }
+
+  /**
+   * Starts a new live simulation from the recorded frame being shown. The old simulation
+   * and the frames recorded after this one are discarded.
+   */
+  branch() {
+    if (!this._playback || !this._recorder) return;
+    this._recorder.truncate(Math.floor(this._playbackPosition));
+    this._galaxies = this._playback.galaxies;
+    this._step = this._playback.step;
+    this._playback = null;
+    this.bindingAnalysis = null;
+    this._resetOrigin();
+    this._guard.reset();
+    this.healthError = null;
+    this._simulator?.reset(this._galaxies, this.physicsConfig, this._step);
+  }
+
+  _showFrame(index: number) {
+    this._playbackPosition = index;
+    this._playback = this._recorder!.restore(index);
+  }
+
+  /**
+   * Moves playback on by `playback-speed` frames. Playing forwards past the end of the
+   * recording returns to the live simulation, and playing backwards past the start pauses.
+   */
+  _advancePlayback() {
+    const frames = this._recorder?.frames ?? [];
+    const previous = Math.floor(this._playbackPosition);
+    const position = this._playbackPosition + this.playbackSpeed;
+    if (position > frames.length - 1) {
+      this.returnToLive();
+    } else if (position < 0) {
+      this.paused = true;
+      this._showFrame(0);
+    } else if (Math.floor(position) !== previous) {
+      this._showFrame(Math.floor(position));
+      this._playbackPosition = position;
+    } else {
+      this._playbackPosition = position;
+    }
   }
 
   _draw() {
@@ -158,9 +865,12 @@ export class GalaxySimulation extends LitElement {
 
     const ctx = this._ctx;
 
-    const centreOfMass = this._galaxies
+    // During playback we draw the recorded frame instead of the live simulation
+    const { galaxies, step } = this._playback ?? { galaxies: this._galaxies, step: this._step };
+
+    const centreOfMass = galaxies
       .reduce((acc, galaxy) => acc.add(galaxy.pos), new Vec3(0, 0, 0))
-      .div(this._galaxies.length);
+      .div(galaxies.length);
 
     let rotationMatrix = Matrix3x3.identity(); // Default to no rotation
     if (this._rotation_vector) {
@@ -169,44 +879,209 @@ export class GalaxySimulation extends LitElement {
       const axis = this._rotation_vector.normalize();
 
       // Calculate the total angle based on the number of frames passed
-      const totalAngle = speedPerFrame * this._step;
+      const totalAngle = speedPerFrame * step;
 
       // Create the complete rotation matrix in one step
       rotationMatrix = Matrix3x3.fromAxisAngle(axis, totalAngle);
     }
 
-    allStars(this._galaxies, (star, galaxy) => {
+    // Gas is drawn in pink and young stars in bright blue. Once the binding analysis has
+    // run, other stars take the colour of the galaxy they are bound to, and escaped stars
+    // are grey
+    const colours = new Map(galaxies.map((galaxy) => [galaxy.id, galaxy.data.color]));
+
+    allStars(galaxies, (star, galaxy) => {
       if (!galaxy.data.color) {
         const color = `hsl(${Math.random() * 360}, 100%, 50%)`;
         galaxy.data.color = color;
       }
-      ctx.fillStyle = galaxy.data.color as string;
+      let size = 1;
+      if (isGas(star)) {
+        ctx.fillStyle = 'hsla(330, 90%, 70%, 0.6)';
+      } else if (isYoungStar(star)) {
+        ctx.fillStyle = 'hsl(210, 100%, 90%)';
+        size = 2;
+      } else if (this.bindingAnalysis && star.data.binding === 'escaped') {
+        ctx.fillStyle = 'hsl(0, 0%, 40%)';
+      } else if (this.bindingAnalysis && typeof star.data.boundTo === 'number') {
+        ctx.fillStyle = (colours.get(star.data.boundTo) ?? galaxy.data.color) as string;
+      } else {
+        ctx.fillStyle = galaxy.data.color as string;
+      }
 
       const pos = rotationMatrix ? rotationMatrix.transform(star.pos) : star.pos;
       const screenX = Math.floor((pos.x - centreOfMass.x) * viewScale) + width / 2;
       const screenY = Math.floor((pos.y - centreOfMass.y) * viewScale) + height / 2;
 
       if (screenX >= 0 && screenX < width && screenY >= 0 && screenY < height) {
-        const size = 1;
         ctx.fillRect(screenX, screenY, size, size);
       }
     });
+
+    // Frozen stars are no longer simulated, but stay where they were, dimmed
+    if (!this._playback) {
+      ctx.globalAlpha = 0.4;
+      for (const { star, galaxy } of this._guard.frozen) {
+        ctx.fillStyle = (galaxy.data.color as string) ?? 'white';
+        const pos = rotationMatrix.transform(star.pos);
+        const screenX = Math.floor((pos.x - centreOfMass.x) * viewScale) + width / 2;
+        const screenY = Math.floor((pos.y - centreOfMass.y) * viewScale) + height / 2;
+        ctx.fillRect(screenX, screenY, 1, 1);
+      }
+      ctx.globalAlpha = 1;
+    }
+
+    if (this.showUnits && this._units) {
+      this._drawUnits(this._units, step, viewScale);
+    }
+  }
+
+  /**
+   * Draws the time that has passed in the bottom left corner, and a scale bar in the bottom
+   * right, in physical units. The time assumes the current time step was used throughout.
+   */
+  _drawUnits(units: UnitSystem, step: number, viewScale: number) {
+    const ctx = this._ctx!;
+    const { width, height } = this._canvas;
+    const dpr = window.devicePixelRatio || 1;
+    const margin = 12 * dpr;
+
+    ctx.font = `${12 * dpr}px sans-serif`;
+    ctx.fillStyle = 'hsl(0, 0%, 80%)';
+    ctx.strokeStyle = 'hsl(0, 0%, 80%)';
+    ctx.lineWidth = dpr;
+    ctx.textBaseline = 'bottom';
+
+    ctx.textAlign = 'left';
+    ctx.fillText(formatMyr(units.toMyr(step * this.timeStep)), margin, height - margin);
+
+    // The longest round length that fits in a fifth of the width. The view is a projection,
+    // so the bar measures distances across the screen.
+    const kpc = roundScaleLength(units.toKpc(width / 5 / viewScale));
+    if (kpc === 0) return;
+    const barWidth = units.fromKpc(kpc) * viewScale;
+    const barY = height - margin - 16 * dpr;
+    ctx.beginPath();
+    ctx.moveTo(width - margin - barWidth, barY);
+    ctx.lineTo(width - margin, barY);
+    ctx.stroke();
+    ctx.textAlign = 'right';
+    ctx.fillText(formatKpc(kpc), width - margin, height - margin);
   }
 
   _animate = () => {
-    if (this._galaxies && this._simulator) {
-      this._simulator.updateGalaxies(this._galaxies); // Tell the universe to advance one step
+    // While paused nothing moves, but we keep drawing so that seeking and stepping show up
+    if (!this.paused) {
+      if (this._playback) {
+        this._advancePlayback();
+      } else {
+        this._stepSimulation();
+      }
     }
     this._draw(); // Draw the current state
 
-    this._step++;
-    if (this._step > 1500) {
+    this._animationFrameId = requestAnimationFrame(this._animate);
+  };
+
+  /**
+   * Advances the live simulation by one step, and records it. If `reversed` is set, the step
+   * goes backwards in time, and on getting back to step 0 the simulation pauses and measures
+   * how close it came to where it started.
+   */
+  _stepSimulation() {
+    // A reversed simulation stops at the start, rather than running on into negative steps
+    if (this.reversed && this._step <= 0) {
+      this.paused = true;
+      return;
+    }
+    const config = this.reversed
+      ? { ...this.physicsConfig, timeStep: -this.timeStep }
+      : this.physicsConfig;
+    if (this._galaxies && this._simulator) {
+      // Tell the universe to advance one step. A simulator running in a Web Worker may not
+      // have the next step ready yet, in which case nothing has happened and nothing counts.
+      if (this._simulator.updateGalaxies(this._galaxies, config) === false) return;
+      if (this.bindingInterval > 0 && this._step % this.bindingInterval === 0) {
+        this.bindingAnalysis = analyseBinding(this._galaxies, config);
+      }
+    }
+
+    this._step += this.reversed ? -1 : 1;
+    if (!this._checkHealth(config)) return;
+    // Recording a step before the latest frame discards the frames after it, so going
+    // backwards would wipe out the recording of the way here
+    if (!this.reversed) {
+      this._recorder?.record(this._galaxies, this.physicsConfig, this._step);
+    }
+    if (this.reversed && this._step <= 0) {
+      this._handleReversal();
+    }
+    if (!this.reversed && this.resetAfter > 0 && this._step > this.resetAfter) {
       this._initialiseGalaxies();
       this._updateRotation();
     }
+  }
 
-    this._animationFrameId = requestAnimationFrame(this._animate);
-  };
+  /**
+   * Checks the galaxies after a step, culling or freezing stars beyond the `escape-radius`.
+   * If a position or velocity is no longer a finite number, the simulation is rolled back to
+   * the last healthy state, if there is one, rather than drawing garbage. It then pauses, so
+   * that the physics attributes can be changed before carrying on. The guard reports each
+   * problem with `_reportHealthIssue`.
+   * @returns True if the simulation is healthy.
+   */
+  _checkHealth(config: PhysicsConfig) {
+    const result = this._guard.check(this._galaxies, config, this._step);
+    if (result.status === 'healthy') return true;
+
+    if (result.status === 'rolled-back') {
+      this._step = result.step;
+      this.bindingAnalysis = null;
+      // Recording the restored step discards the frames recorded after it
+      this._recorder?.record(this._galaxies, this.physicsConfig, this._step);
+      this._simulator?.reset(this._galaxies, this.physicsConfig, this._step);
+    }
+    this.healthError = result;
+    this.paused = true;
+    return false;
+  }
+
+  /**
+   * Blends the colours of merging galaxies, weighted by their masses, so that the merged
+   * galaxy's stars show where they came from.
+   */
+  _handleMerge(event: MergeEvent) {
+    const { survivor, absorbed, survivorMass, absorbedMass } = event;
+    if (typeof survivor.data.hue === 'number' && typeof absorbed.data.hue === 'number') {
+      // Hues are angles, so we average them as directions to blend 350° and 10° into 0°
+      const toRadians = Math.PI / 180;
+      const x =
+        survivorMass * Math.cos(survivor.data.hue * toRadians) +
+        absorbedMass * Math.cos(absorbed.data.hue * toRadians);
+      const y =
+        survivorMass * Math.sin(survivor.data.hue * toRadians) +
+        absorbedMass * Math.sin(absorbed.data.hue * toRadians);
+      survivor.data.hue = Math.atan2(y, x) / toRadians;
+      survivor.data.color = `hsl(${survivor.data.hue}, 50%, 80%)`;
+    }
+  }
+
+  /**
+   * Compares the state a reversed simulation has got back to with where it started, pauses,
+   * and dispatches a `time-reversal` event with the result. Without a state at step 0 to
+   * compare with, the result is null.
+   */
+  _handleReversal() {
+    try {
+      this.reversalDeviation =
+        this._origin && this._step === 0 ? measureDeviation(this._galaxies, this._origin) : null;
+    } catch {
+      // After a merger the galaxies no longer match the ones we started with
+      this.reversalDeviation = null;
+    }
+    this.paused = true;
+    this.dispatchEvent(new CustomEvent('time-reversal', { detail: this.reversalDeviation }));
+  }
 
   _startAnimation() {
     if (!this._animationFrameId) {
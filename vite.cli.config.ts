@@ -0,0 +1,18 @@
+import { defineConfig } from 'vite';
+import path from 'path';
+
+// Builds the `galaxy-js` command line tool as a single Node.js script
+export default defineConfig({
+  build: {
+    ssr: path.resolve(__dirname, 'src/cli/index.ts'),
+    outDir: 'dist',
+    emptyOutDir: false, // Don't wipe out main build
+    rollupOptions: {
+      output: {
+        entryFileNames: 'cli.js',
+        format: 'es',
+        banner: '#!/usr/bin/env node',
+      },
+    },
+  },
+});